@@ -0,0 +1,86 @@
+import { writeWavPcm16Mono } from "./wav.js";
+
+const FRAME_SEC = 0.02;
+
+export interface AudioChunkPlanOptions {
+  chunkSec: number;
+  overlapSec: number;
+  // How far before each nominal boundary to look for the quietest frame.
+  searchSec?: number;
+}
+
+export interface AudioChunk {
+  index: number;
+  // Audio window sent for transcription, including the overlap with its neighbours.
+  startSec: number;
+  endSec: number;
+  // Span this chunk is authoritative for; cut points sit in silence and overlap regions belong to one side.
+  ownStartSec: number;
+  ownEndSec: number;
+}
+
+function quietestFrameSec(samples: Int16Array, sampleRate: number, fromSec: number, toSec: number): number {
+  const frameSize = Math.max(1, Math.round(FRAME_SEC * sampleRate));
+  const first = Math.max(0, Math.floor(fromSec * sampleRate));
+  const last = Math.min(samples.length, Math.ceil(toSec * sampleRate));
+
+  let bestStart = first;
+  let bestEnergy = Number.POSITIVE_INFINITY;
+
+  for (let start = first; start + frameSize <= last; start += frameSize) {
+    let sumSquares = 0;
+    for (let index = start; index < start + frameSize; index += 1) {
+      sumSquares += samples[index] * samples[index];
+    }
+
+    // Ties go to the later frame so chunks stay close to the requested length.
+    if (sumSquares <= bestEnergy) {
+      bestEnergy = sumSquares;
+      bestStart = start;
+    }
+  }
+
+  return (bestStart + frameSize / 2) / sampleRate;
+}
+
+export function planAudioChunks(samples: Int16Array, sampleRate: number, options: AudioChunkPlanOptions): AudioChunk[] {
+  const totalSec = samples.length / sampleRate;
+  const searchSec = Math.min(options.searchSec ?? 10, options.chunkSec / 4);
+
+  const cuts: number[] = [];
+  let cursor = 0;
+  while (totalSec - cursor > options.chunkSec + options.overlapSec) {
+    const target = cursor + options.chunkSec;
+    const cut = quietestFrameSec(samples, sampleRate, target - searchSec, target);
+    cuts.push(cut);
+    cursor = cut;
+  }
+
+  const bounds = [0, ...cuts, totalSec];
+  const chunks: AudioChunk[] = [];
+
+  for (let index = 0; index + 1 < bounds.length; index += 1) {
+    const ownStartSec = bounds[index];
+    const ownEndSec = bounds[index + 1];
+    chunks.push({
+      index,
+      startSec: Math.max(0, ownStartSec - options.overlapSec),
+      endSec: Math.min(totalSec, ownEndSec + options.overlapSec),
+      ownStartSec,
+      ownEndSec,
+    });
+  }
+
+  return chunks;
+}
+
+export async function writeAudioChunk(
+  outputPath: string,
+  samples: Int16Array,
+  sampleRate: number,
+  chunk: AudioChunk,
+): Promise<void> {
+  const start = Math.round(chunk.startSec * sampleRate);
+  const end = Math.min(samples.length, Math.round(chunk.endSec * sampleRate));
+  await writeWavPcm16Mono(outputPath, sampleRate, samples.subarray(start, end));
+}
@@ -0,0 +1,73 @@
+export interface ClipFadeOptions {
+  // Ramp at the start of every placed clip, in ms.
+  fadeInMs: number;
+  // Ramp before every clip ends or is cut off at its window, in ms.
+  fadeOutMs: number;
+  // Length of the equal-power crossfade where a clip runs into the next one, in ms.
+  crossfadeMs: number;
+  // Leading and trailing audio quieter than this (dBFS over 10 ms frames) is trimmed from each TTS clip before it is
+  // placed; undefined places clips as synthesized.
+  trimSilenceDb?: number;
+}
+
+export const DEFAULT_CLIP_FADES: ClipFadeOptions = {
+  fadeInMs: 5,
+  fadeOutMs: 10,
+  crossfadeMs: 30,
+  trimSilenceDb: -50,
+};
+
+const TRIM_FRAME_SEC = 0.01;
+// Kept on both sides of the loud part so soft onsets and releases are not clipped.
+const TRIM_PAD_SEC = 0.005;
+
+function frameLevelDb(samples: Int16Array, start: number, end: number): number {
+  let sum = 0;
+  for (let index = start; index < end; index += 1) {
+    const value = samples[index] / 32768;
+    sum += value * value;
+  }
+  return 10 * Math.log10(sum / Math.max(1, end - start) + 1e-12);
+}
+
+// Drops the silence TTS engines put before and after speech. A clip with no frame above the threshold is kept.
+export function trimSilence(samples: Int16Array, sampleRate: number, thresholdDb: number): Int16Array {
+  const frameSize = Math.max(1, Math.round(TRIM_FRAME_SEC * sampleRate));
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const isLoud = (frame: number): boolean =>
+    frameLevelDb(samples, frame * frameSize, Math.min(samples.length, (frame + 1) * frameSize)) > thresholdDb;
+
+  let firstFrame = 0;
+  while (firstFrame < frameCount && !isLoud(firstFrame)) {
+    firstFrame += 1;
+  }
+  if (firstFrame === frameCount) {
+    return samples;
+  }
+  let lastFrame = frameCount - 1;
+  while (lastFrame > firstFrame && !isLoud(lastFrame)) {
+    lastFrame -= 1;
+  }
+
+  const pad = Math.round(TRIM_PAD_SEC * sampleRate);
+  const start = Math.max(0, firstFrame * frameSize - pad);
+  const end = Math.min(samples.length, (lastFrame + 1) * frameSize + pad);
+  return samples.subarray(start, end);
+}
+
+// Quarter-sine ramps: a fade-out and a fade-in of the same length over the same samples keep the summed power
+// constant, which is what makes a crossfade equal-power. Both work in place.
+export function fadeIn(samples: Float32Array, length: number): void {
+  const count = Math.min(length, samples.length);
+  for (let index = 0; index < count; index += 1) {
+    samples[index] *= Math.sin((Math.PI / 2) * ((index + 0.5) / length));
+  }
+}
+
+// Fades out the `length` samples that end at `end` (exclusive).
+export function fadeOut(samples: Float32Array, end: number, length: number): void {
+  const rampStart = end - length;
+  for (let index = Math.max(0, rampStart); index < end; index += 1) {
+    samples[index] *= Math.cos((Math.PI / 2) * ((index - rampStart + 0.5) / length));
+  }
+}
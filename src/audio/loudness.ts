@@ -0,0 +1,462 @@
+// Loudness measurement after ITU-R BS.1770-4 with EBU R128 gating, and a true-peak limiter. Everything works on
+// mono float samples in [-1, 1]; for a single channel the channel weight is 1.
+
+export interface LoudnessTarget {
+  // Integrated loudness the final track is normalized to, in LUFS.
+  integratedLufs: number;
+  // Ceiling for the true-peak limiter, in dBTP.
+  truePeakDbtp: number;
+}
+
+export const LOUDNESS_PRESETS = {
+  youtube: -14,
+  broadcast: -23,
+} as const;
+
+export type LoudnessPreset = keyof typeof LOUDNESS_PRESETS;
+
+// The youtube level with the true-peak ceiling used when --true-peak-db is not given. Normalization itself is off
+// unless --loudness-target is passed, so output levels stay as they were for anyone not passing it.
+export const DEFAULT_LOUDNESS_TARGET: LoudnessTarget = {
+  integratedLufs: LOUDNESS_PRESETS.youtube,
+  truePeakDbtp: -1,
+};
+
+// What --loudness-target accepts besides a level in LUFS; "off" sums and clamps the clips as they are.
+export type LoudnessTargetOption = LoudnessPreset | "off" | number;
+
+export function resolveLoudnessTarget(
+  option: LoudnessTargetOption | undefined,
+  truePeakDbtp?: number,
+): LoudnessTarget | undefined {
+  if (option === undefined || option === "off") {
+    return undefined;
+  }
+  return {
+    integratedLufs: typeof option === "number" ? option : LOUDNESS_PRESETS[option],
+    truePeakDbtp: truePeakDbtp ?? DEFAULT_LOUDNESS_TARGET.truePeakDbtp,
+  };
+}
+
+export interface LoudnessMeasurement {
+  // Gated integrated loudness; undefined when every block is below the absolute gate, i.e. the audio is silent.
+  integratedLufs?: number;
+  // Undefined for digital silence.
+  truePeakDbtp?: number;
+}
+
+export interface SegmentLoudness {
+  index: number;
+  // Undefined for a silent clip, which is left at its level.
+  measuredLufs?: number;
+  gainDb: number;
+}
+
+export interface LoudnessReport {
+  target: LoudnessTarget;
+  // Each TTS clip is matched to the target level before the clips are summed.
+  segments: SegmentLoudness[];
+  // The final track: the dub on its own, or its mix with the original audio.
+  output: NormalizationResult;
+}
+
+const BLOCK_SEC = 0.4;
+// Blocks overlap by 75%, so consecutive blocks start one quarter block apart.
+const BLOCK_STEPS = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const OVERSAMPLING = 4;
+// Interpolation taps per oversampled phase, as in the BS.1770-4 Annex 2 reference filter (48 taps in total).
+const TAPS_PER_PHASE = 12;
+const LIMITER_LOOKAHEAD_SEC = 0.005;
+const LIMITER_RELEASE_SEC = 0.1;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export function dbToGain(db: number): number {
+  return 10 ** (db / 20);
+}
+
+export function gainToDb(gain: number): number {
+  return 20 * Math.log10(gain);
+}
+
+// The two K-weighting stages (a high shelf modelling the head, then a high-pass) designed for any sample rate.
+// At 48 kHz they reproduce the coefficients tabulated in BS.1770.
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+  const shelf: Biquad = {
+    b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+    b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+    a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+  };
+
+  const highPassK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const highPassQ = 0.5003270373238773;
+  const highPassA0 = 1 + highPassK / highPassQ + highPassK * highPassK;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (highPassK * highPassK - 1)) / highPassA0,
+    a2: (1 - highPassK / highPassQ + highPassK * highPassK) / highPassA0,
+  };
+
+  return [shelf, highPass];
+}
+
+function powerToLufs(power: number): number {
+  return -0.691 + 10 * Math.log10(power);
+}
+
+// Gated integration over the mean squares of consecutive quarter blocks; a 400 ms block is the mean of four.
+function integrateStepPowers(stepPowers: number[]): number | undefined {
+  const blockPowers: number[] = [];
+  for (let start = 0; start + BLOCK_STEPS <= stepPowers.length; start += 1) {
+    let total = 0;
+    for (let step = start; step < start + BLOCK_STEPS; step += 1) {
+      total += stepPowers[step];
+    }
+    blockPowers.push(total / BLOCK_STEPS);
+  }
+
+  const aboveAbsolute = blockPowers.filter((power) => power > 0 && powerToLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) {
+    return undefined;
+  }
+  const ungatedMean = aboveAbsolute.reduce((total, power) => total + power, 0) / aboveAbsolute.length;
+  const relativeGate = powerToLufs(ungatedMean) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter((power) => powerToLufs(power) > relativeGate);
+  return powerToLufs(gated.reduce((total, power) => total + power, 0) / gated.length);
+}
+
+// Windowed-sinc coefficients for the intermediate phases of 4x oversampling; phase 0 is the sample itself.
+function interpolationPhases(): Float64Array[] {
+  const phases: Float64Array[] = [];
+  const half = TAPS_PER_PHASE / 2;
+  for (let phase = 1; phase < OVERSAMPLING; phase += 1) {
+    const fraction = phase / OVERSAMPLING;
+    const taps = new Float64Array(TAPS_PER_PHASE);
+    for (let tap = 0; tap < TAPS_PER_PHASE; tap += 1) {
+      // Tap t weights sample n + t - half + 1 for the point n + fraction.
+      const x = fraction - (tap - half + 1);
+      const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / half);
+      taps[tap] = sinc * window;
+    }
+    phases.push(taps);
+  }
+  return phases;
+}
+
+const INTERPOLATION_PHASES = interpolationPhases();
+
+// Samples a peak reading lags behind the input: interpolating after sample n needs the samples up to n + 6.
+const PEAK_DELAY = TAPS_PER_PHASE / 2;
+
+// Follows the 4x oversampled signal one input sample at a time. push(x[n]) returns the largest absolute value
+// from x[n - PEAK_DELAY] up to the next sample; audio before the first sample counts as silence. When both of
+// those samples are below `skipBelow` the interpolation is skipped and their sample peak returned: real audio
+// does not overshoot by 6 dB between samples, so callers pass half the level they care about.
+function createPeakTracker(): { push(sample: number, skipBelow: number): number } {
+  const history = new Float64Array(TAPS_PER_PHASE);
+  let oldest = 0;
+  return {
+    push(sample, skipBelow) {
+      history[oldest] = sample;
+      oldest = (oldest + 1) % TAPS_PER_PHASE;
+      const current = Math.abs(history[(oldest + PEAK_DELAY - 1) % TAPS_PER_PHASE]);
+      const following = Math.abs(history[(oldest + PEAK_DELAY) % TAPS_PER_PHASE]);
+      let peak = Math.max(current, following);
+      if (peak < skipBelow) {
+        return peak;
+      }
+      peak = current;
+      for (const taps of INTERPOLATION_PHASES) {
+        let value = 0;
+        for (let tap = 0; tap < TAPS_PER_PHASE; tap += 1) {
+          value += history[(oldest + tap) % TAPS_PER_PHASE] * taps[tap];
+        }
+        peak = Math.max(peak, Math.abs(value));
+      }
+      return peak;
+    },
+  };
+}
+
+export interface LoudnessMeter {
+  add(samples: Float32Array): void;
+  // Call once, after the last add().
+  finish(): LoudnessMeasurement;
+}
+
+// Measures audio fed to it in blocks of any size, keeping only one number per 100 ms, so a long track can be
+// measured while it is rendered.
+export function createLoudnessMeter(sampleRate: number): LoudnessMeter {
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const stepSize = Math.max(1, Math.round((BLOCK_SEC * sampleRate) / BLOCK_STEPS));
+  const stepPowers: number[] = [];
+  const peaks = createPeakTracker();
+  let peak = 0;
+
+  // Direct form II transposed state for both stages.
+  let shelfZ1 = 0;
+  let shelfZ2 = 0;
+  let highPassZ1 = 0;
+  let highPassZ2 = 0;
+  let sum = 0;
+  let count = 0;
+
+  return {
+    add(samples) {
+      for (let index = 0; index < samples.length; index += 1) {
+        const input = samples[index];
+        const shelved = shelf.b0 * input + shelfZ1;
+        shelfZ1 = shelf.b1 * input - shelf.a1 * shelved + shelfZ2;
+        shelfZ2 = shelf.b2 * input - shelf.a2 * shelved;
+        const weighted = highPass.b0 * shelved + highPassZ1;
+        highPassZ1 = highPass.b1 * shelved - highPass.a1 * weighted + highPassZ2;
+        highPassZ2 = highPass.b2 * shelved - highPass.a2 * weighted;
+
+        sum += weighted * weighted;
+        count += 1;
+        if (count === stepSize) {
+          stepPowers.push(sum / stepSize);
+          sum = 0;
+          count = 0;
+        }
+
+        peak = Math.max(peak, peaks.push(input, peak / 2));
+      }
+    },
+    finish() {
+      for (let index = 0; index < PEAK_DELAY; index += 1) {
+        peak = Math.max(peak, peaks.push(0, peak / 2));
+      }
+      let steps = stepPowers;
+      if (stepPowers.length < BLOCK_STEPS) {
+        // Audio shorter than one block is measured as a single block over its whole length.
+        const length = stepPowers.length * stepSize + count;
+        const total = stepPowers.reduce((accumulated, power) => accumulated + power * stepSize, sum);
+        steps = Array<number>(BLOCK_STEPS).fill(length > 0 ? total / length : 0);
+      }
+      return {
+        integratedLufs: integrateStepPowers(steps),
+        truePeakDbtp: peak > 0 ? gainToDb(peak) : undefined,
+      };
+    },
+  };
+}
+
+export function measureLoudness(samples: Float32Array, sampleRate: number): LoudnessMeasurement {
+  const meter = createLoudnessMeter(sampleRate);
+  meter.add(samples);
+  return meter.finish();
+}
+
+export function measureIntegratedLoudness(samples: Float32Array, sampleRate: number): number | undefined {
+  return measureLoudness(samples, sampleRate).integratedLufs;
+}
+
+export function measureTruePeak(samples: Float32Array, sampleRate: number): number | undefined {
+  return measureLoudness(samples, sampleRate).truePeakDbtp;
+}
+
+export interface TruePeakLimiter {
+  // Returns the limited audio that is ready; the output runs a few milliseconds behind the input.
+  process(samples: Float32Array): Float32Array;
+  // Returns the rest of the output, so that in total as many samples come out as went in.
+  flush(): Float32Array;
+}
+
+// Look-ahead limiter keyed on the oversampled peak, so the output stays under the ceiling between samples too.
+// The gain each peak requires is held for the look-ahead window and smoothed over it, which starts each reduction
+// ahead of its peak, then recovers with an exponential release.
+export function createTruePeakLimiter(sampleRate: number, ceilingDbtp: number): TruePeakLimiter {
+  const ceiling = dbToGain(ceilingDbtp);
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SEC * sampleRate));
+  const releaseCoefficient = Math.exp(-1 / (LIMITER_RELEASE_SEC * sampleRate));
+  const delay = PEAK_DELAY + lookahead;
+  const peaks = createPeakTracker();
+
+  // Input still waiting for its gain, indexed by sample number modulo its length.
+  const pending = new Float32Array(delay + 1);
+  // Monotonic queue of (sample number, required gain) for the running minimum over the look-ahead window.
+  const minimumIndexes: number[] = [];
+  const minimumGains: number[] = [];
+  // The last lookahead + 1 held gains, for the moving average.
+  const held = new Float32Array(lookahead + 1).fill(1);
+  let heldSum = lookahead + 1;
+  let envelope = 1;
+  let received = 0;
+  let emitted = 0;
+
+  // Takes the next input sample and returns the next output sample, or undefined while the delay fills.
+  const step = (sample: number): number | undefined => {
+    pending[received % pending.length] = sample;
+    // The peak reading is for sample `peakIndex`; negative numbers are the silence before the start.
+    const peakIndex = received - PEAK_DELAY;
+    received += 1;
+    const peak = peaks.push(sample, ceiling / 2);
+    if (peakIndex < 0) {
+      return undefined;
+    }
+
+    const required = peak > ceiling ? ceiling / peak : 1;
+    while (minimumGains.length > 0 && minimumGains[minimumGains.length - 1] >= required) {
+      minimumGains.pop();
+      minimumIndexes.pop();
+    }
+    minimumGains.push(required);
+    minimumIndexes.push(peakIndex);
+    while (minimumIndexes[0] < peakIndex - lookahead) {
+      minimumGains.shift();
+      minimumIndexes.shift();
+    }
+
+    // A moving average of the held minimum over the same window stays at or below the gain required at every
+    // peak; the sample it applies to is the one `lookahead` before the newest reading.
+    const slot = peakIndex % held.length;
+    heldSum += minimumGains[0] - held[slot];
+    held[slot] = minimumGains[0];
+    const outputIndex = peakIndex - lookahead;
+    if (outputIndex < 0) {
+      return undefined;
+    }
+    const smoothed = Math.min(heldSum / held.length, 1);
+    envelope = smoothed < envelope ? smoothed : smoothed + (envelope - smoothed) * releaseCoefficient;
+    emitted += 1;
+    return pending[outputIndex % pending.length] * envelope;
+  };
+
+  return {
+    process(samples) {
+      const output = new Float32Array(samples.length);
+      let written = 0;
+      for (let index = 0; index < samples.length; index += 1) {
+        const value = step(samples[index]);
+        if (value !== undefined) {
+          output[written] = value;
+          written += 1;
+        }
+      }
+      return output.subarray(0, written);
+    },
+    flush() {
+      const output = new Float32Array(received - emitted);
+      let written = 0;
+      while (written < output.length) {
+        const value = step(0);
+        if (value !== undefined) {
+          output[written] = value;
+          written += 1;
+        }
+      }
+      return output;
+    },
+  };
+}
+
+// Limits in place; see createTruePeakLimiter.
+export function limitTruePeak(samples: Float32Array, sampleRate: number, ceilingDbtp: number): void {
+  const limiter = createTruePeakLimiter(sampleRate, ceilingDbtp);
+  const head = limiter.process(samples);
+  samples.set(head);
+  samples.set(limiter.flush(), head.length);
+}
+
+// Reported levels are rounded to a hundredth of a dB.
+function roundDb(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Math.round(value * 100) / 100;
+}
+
+// Scales one clip in place so its integrated loudness matches `targetLufs`, moving it by at most `maxGainDb`.
+export function matchLoudness(
+  samples: Float32Array,
+  sampleRate: number,
+  targetLufs: number,
+  maxGainDb: number,
+): { measuredLufs?: number; gainDb: number } {
+  const measuredLufs = measureIntegratedLoudness(samples, sampleRate);
+  const gainDb = measuredLufs === undefined ? 0 : Math.max(-maxGainDb, Math.min(maxGainDb, targetLufs - measuredLufs));
+  if (gainDb !== 0) {
+    const gain = dbToGain(gainDb);
+    for (let index = 0; index < samples.length; index += 1) {
+      samples[index] *= gain;
+    }
+  }
+  return { measuredLufs: roundDb(measuredLufs), gainDb: roundDb(gainDb) ?? 0 };
+}
+
+export interface NormalizationResult extends LoudnessMeasurement {
+  // Gain applied to reach the target before limiting, in dB.
+  gainDb: number;
+}
+
+export interface LoudnessNormalizer {
+  // Same contract as TruePeakLimiter.process.
+  process(samples: Float32Array): Float32Array;
+  finish(): { tail: Float32Array; result: NormalizationResult };
+}
+
+// Second pass of a two-pass normalization: `measuredLufs` is the integrated loudness of the whole track from a
+// first pass (undefined for silence, which is left alone). Each block is brought to the target and true-peak
+// limited, and the result is measured as it goes, so limiting shows up as a shortfall.
+export function createLoudnessNormalizer(
+  sampleRate: number,
+  target: LoudnessTarget,
+  measuredLufs: number | undefined,
+): LoudnessNormalizer {
+  const gainDb = measuredLufs === undefined ? 0 : target.integratedLufs - measuredLufs;
+  const gain = dbToGain(gainDb);
+  const limiter = createTruePeakLimiter(sampleRate, target.truePeakDbtp);
+  const meter = createLoudnessMeter(sampleRate);
+
+  return {
+    process(samples) {
+      const scaled = samples.map((sample) => sample * gain);
+      const limited = limiter.process(scaled);
+      meter.add(limited);
+      return limited;
+    },
+    finish() {
+      const tail = limiter.flush();
+      meter.add(tail);
+      const measured = meter.finish();
+      return {
+        tail,
+        result: {
+          gainDb: roundDb(gainDb) ?? 0,
+          integratedLufs: roundDb(measured.integratedLufs),
+          truePeakDbtp: roundDb(measured.truePeakDbtp),
+        },
+      };
+    },
+  };
+}
+
+// Brings the track to the target integrated loudness, then limits its true peak to the ceiling, in place.
+export function normalizeLoudness(
+  samples: Float32Array,
+  sampleRate: number,
+  target: LoudnessTarget,
+): NormalizationResult {
+  const normalizer = createLoudnessNormalizer(sampleRate, target, measureIntegratedLoudness(samples, sampleRate));
+  const head = normalizer.process(samples);
+  const { tail, result } = normalizer.finish();
+  samples.set(head);
+  samples.set(tail, head.length);
+  return result;
+}
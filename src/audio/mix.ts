@@ -0,0 +1,146 @@
+import { dbToGain, type LoudnessTarget, type NormalizationResult } from "./loudness.js";
+import { writeRenderedTrack, type BlockRenderer } from "./render.js";
+import { createResampler, type ResampleQuality } from "./resample.js";
+import { downmixToMono, openWavReader, type WavReader } from "./wav.js";
+
+export interface DuckingOptions {
+  // Level of the original track outside dubbed speech, in dB.
+  backgroundDb: number;
+  // Extra attenuation applied to the original track while dubbed speech plays, in dB.
+  duckDb: number;
+  attackMs: number;
+  releaseMs: number;
+  // Level of the dubbed speech, in dB.
+  dubDb: number;
+}
+
+export const DEFAULT_DUCKING: DuckingOptions = {
+  backgroundDb: 0,
+  duckDb: -15,
+  attackMs: 80,
+  releaseMs: 400,
+  dubDb: 0,
+};
+
+// Voice-over keeps the original speaker audible under the translation, which starts slightly later.
+export const DEFAULT_VOICE_OVER = {
+  leadInSec: 0.5,
+  bedDb: -12,
+};
+
+// Frames mixed per block; the dub and the background are read and the mix written one block at a time.
+const MIX_BLOCK_FRAMES = 24000;
+
+function appendSamples(head: Float32Array, tail: Float32Array): Float32Array {
+  const joined = new Float32Array(head.length + tail.length);
+  joined.set(head);
+  joined.set(tail, head.length);
+  return joined;
+}
+
+// Hands out the background at the dub's rate, `count` samples per call, and silence once it has run out.
+function createBackgroundStream(
+  reader: WavReader,
+  sampleRate: number,
+  quality: ResampleQuality | undefined,
+): (count: number) => Promise<Float32Array> {
+  const resampler = createResampler(reader.format.sampleRate, sampleRate, quality);
+  let pending: Float32Array = new Float32Array(0);
+  let exhausted = false;
+
+  return async (count) => {
+    while (pending.length < count && !exhausted) {
+      const block = await reader.read(MIX_BLOCK_FRAMES);
+      if (block[0].length === 0) {
+        exhausted = true;
+        pending = appendSamples(pending, resampler.flush());
+      } else {
+        pending = appendSamples(pending, resampler.process(downmixToMono(block)));
+      }
+    }
+    const output = new Float32Array(count);
+    output.set(pending.subarray(0, count));
+    pending = pending.slice(Math.min(count, pending.length));
+    return output;
+  };
+}
+
+// Sidechain-style ducking keyed on the dubbed segment windows: the original track is pulled down by duckDb
+// while speech plays, with the attack starting ahead of each window so the first syllable is not masked,
+// and released smoothly afterwards. The ducked original and the dub are then summed at their levels, and with a
+// loudness target the sum is normalized and true-peak limited rather than clamped. Both inputs are streamed, so
+// memory use does not grow with the duration.
+export async function mixDubWithBackground(params: {
+  dubWavPath: string;
+  backgroundWavPath: string;
+  outputWavPath: string;
+  windows: Array<{ startSec: number; endSec: number }>;
+  ducking: DuckingOptions;
+  loudness?: LoudnessTarget;
+  // Used when the background is not already at the dub's rate.
+  resampleQuality?: ResampleQuality;
+}): Promise<NormalizationResult | undefined> {
+  const dub = await openWavReader(params.dubWavPath);
+  let background: WavReader | undefined;
+  try {
+    background = await openWavReader(params.backgroundWavPath);
+    const sampleRate = dub.format.sampleRate;
+    const takeBackground = createBackgroundStream(background, sampleRate, params.resampleQuality);
+
+    const { ducking } = params;
+    const attackSamples = Math.max(1, (ducking.attackMs / 1000) * sampleRate);
+    const releaseSamples = Math.max(1, (ducking.releaseMs / 1000) * sampleRate);
+
+    // Sample ranges of the (lead-in extended) windows; the key is 1 inside any of them.
+    const keyRanges = params.windows.map((window) => ({
+      start: Math.max(0, Math.floor(window.startSec * sampleRate - attackSamples)),
+      end: Math.ceil(window.endSec * sampleRate),
+    }));
+
+    const attackCoefficient = Math.exp(-1 / (attackSamples / 4));
+    const releaseCoefficient = Math.exp(-1 / (releaseSamples / 4));
+    const duckedGain = dbToGain(ducking.duckDb);
+    const backgroundGain = dbToGain(ducking.backgroundDb);
+    const dubGain = dbToGain(ducking.dubDb);
+
+    let envelope = 1;
+    const render: BlockRenderer = async (onBlock) => {
+      for (let blockStart = 0; ; ) {
+        const dubSamples = downmixToMono(await dub.read(MIX_BLOCK_FRAMES));
+        if (dubSamples.length === 0) {
+          break;
+        }
+        const blockEnd = blockStart + dubSamples.length;
+        const backgroundSamples = await takeBackground(dubSamples.length);
+
+        const key = new Uint8Array(dubSamples.length);
+        for (const range of keyRanges) {
+          if (range.start < blockEnd && range.end > blockStart) {
+            key.fill(1, Math.max(0, range.start - blockStart), Math.min(key.length, range.end - blockStart));
+          }
+        }
+
+        const mixed = new Float32Array(dubSamples.length);
+        for (let index = 0; index < mixed.length; index += 1) {
+          const target = key[index] ? duckedGain : 1;
+          const coefficient = target < envelope ? attackCoefficient : releaseCoefficient;
+          envelope = target + (envelope - target) * coefficient;
+          mixed[index] = dubSamples[index] * dubGain + backgroundSamples[index] * backgroundGain * envelope;
+        }
+
+        blockStart = blockEnd;
+        await onBlock(mixed);
+      }
+    };
+
+    return await writeRenderedTrack({
+      outputWavPath: params.outputWavPath,
+      sampleRate,
+      render,
+      loudness: params.loudness,
+    });
+  } finally {
+    await background?.close();
+    await dub.close();
+  }
+}
@@ -0,0 +1,71 @@
+import fs from "node:fs/promises";
+import {
+  createLoudnessMeter,
+  createLoudnessNormalizer,
+  type LoudnessTarget,
+  type NormalizationResult,
+} from "./loudness.js";
+import { createWavWriter, type WavFormat } from "./wav.js";
+
+// Produces a mono track in order, one block at a time.
+export type BlockRenderer = (onBlock: (block: Float32Array) => Promise<void>) => Promise<void>;
+
+// Length of the blocks read back from the scratch file.
+const READ_BACK_BLOCK_SEC = 1;
+
+// Writes a rendered track to a 16-bit WAV file without holding it in memory. Without a loudness target the
+// blocks go straight to the file, and anything past full scale is clamped. With one, the track is rendered once
+// to measure it, kept as 32-bit float in a scratch file next to the output (`<output>.mix.f32`), then read back
+// block by block to be normalized and limited.
+export async function writeRenderedTrack(params: {
+  outputWavPath: string;
+  sampleRate: number;
+  render: BlockRenderer;
+  loudness?: LoudnessTarget;
+}): Promise<NormalizationResult | undefined> {
+  const { sampleRate, loudness } = params;
+  const format: WavFormat = { sampleRate, channels: 1, sampleFormat: "pcm16" };
+
+  if (!loudness) {
+    const writer = await createWavWriter(params.outputWavPath, format);
+    try {
+      await params.render((block) => writer.write([block]));
+    } finally {
+      await writer.close();
+    }
+    return undefined;
+  }
+
+  const scratchPath = `${params.outputWavPath}.mix.f32`;
+  const scratch = await fs.open(scratchPath, "w+");
+  try {
+    const meter = createLoudnessMeter(sampleRate);
+    let totalSamples = 0;
+    await params.render(async (block) => {
+      meter.add(block);
+      await scratch.write(Buffer.from(block.buffer, block.byteOffset, block.byteLength));
+      totalSamples += block.length;
+    });
+
+    const normalizer = createLoudnessNormalizer(sampleRate, loudness, meter.finish().integratedLufs);
+    const writer = await createWavWriter(params.outputWavPath, format);
+    try {
+      const blockSamples = Math.max(1, Math.round(READ_BACK_BLOCK_SEC * sampleRate));
+      const block = new Float32Array(blockSamples);
+      const bytes = Buffer.from(block.buffer);
+      for (let blockStart = 0; blockStart < totalSamples; blockStart += blockSamples) {
+        const count = Math.min(blockSamples, totalSamples - blockStart);
+        await scratch.read(bytes, 0, count * 4, blockStart * 4);
+        await writer.write([normalizer.process(block.subarray(0, count))]);
+      }
+      const { tail, result } = normalizer.finish();
+      await writer.write([tail]);
+      return result;
+    } finally {
+      await writer.close();
+    }
+  } finally {
+    await scratch.close();
+    await fs.rm(scratchPath, { force: true });
+  }
+}
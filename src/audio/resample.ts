@@ -0,0 +1,183 @@
+// Band-limited sample rate conversion with a Kaiser-windowed sinc kernel. The rate ratio is reduced to L/M and
+// the kernel is tabulated at L phases, so every common pair of rates (e.g. 24 kHz <-> 44.1 kHz, 160/147) is
+// converted exactly; unusual ratios fall back to interpolating between MAX_PHASES tabulated phases.
+
+export type ResampleQuality = "fast" | "standard" | "high";
+
+interface ResampleProfile {
+  // Kernel zero crossings on each side of the centre, in units of the lower rate's sample period.
+  zeroCrossings: number;
+  // Kaiser window shape; larger values trade a wider transition band for more stopband rejection.
+  kaiserBeta: number;
+  // Centre of the transition band (the -6 dB point) as a fraction of the lower rate's Nyquist frequency.
+  cutoff: number;
+}
+
+export const RESAMPLE_QUALITIES: Record<ResampleQuality, ResampleProfile> = {
+  fast: { zeroCrossings: 8, kaiserBeta: 6, cutoff: 0.85 },
+  standard: { zeroCrossings: 16, kaiserBeta: 9, cutoff: 0.9 },
+  high: { zeroCrossings: 32, kaiserBeta: 12, cutoff: 0.94 },
+};
+
+export const DEFAULT_RESAMPLE_QUALITY: ResampleQuality = "standard";
+
+const MAX_PHASES = 4096;
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+// Zeroth-order modified Bessel function of the first kind, for the Kaiser window.
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50; k += 1) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+    if (term < sum * 1e-12) {
+      break;
+    }
+  }
+  return sum;
+}
+
+interface Kernel {
+  // Input samples on each side of the output position that contribute to it.
+  halfTaps: number;
+  phases: number;
+  // (phases + 1) rows of 2 * halfTaps taps; the extra row lets phase interpolation reach the next sample.
+  table: Float64Array;
+}
+
+function buildKernel(profile: ResampleProfile, upFactor: number, downFactor: number): Kernel {
+  // Cutoff in cycles per input sample: the lower of the two Nyquist frequencies, scaled by the profile's cutoff.
+  const cutoff = 0.5 * Math.min(1, upFactor / downFactor) * profile.cutoff;
+  const halfWidth = profile.zeroCrossings / (2 * cutoff);
+  const halfTaps = Math.ceil(halfWidth);
+  const phases = Math.min(upFactor, MAX_PHASES);
+  const taps = 2 * halfTaps;
+  const table = new Float64Array((phases + 1) * taps);
+  const windowNorm = besselI0(profile.kaiserBeta);
+
+  for (let phase = 0; phase <= phases; phase += 1) {
+    const fraction = phase / phases;
+    let sum = 0;
+    for (let tap = 0; tap < taps; tap += 1) {
+      // Tap t weights input sample i + t - halfTaps + 1 for the output position i + fraction.
+      const x = tap - halfTaps + 1 - fraction;
+      const ratio = x / halfWidth;
+      const window =
+        Math.abs(ratio) >= 1 ? 0 : besselI0(profile.kaiserBeta * Math.sqrt(1 - ratio * ratio)) / windowNorm;
+      const argument = 2 * cutoff * x;
+      const sinc = argument === 0 ? 1 : Math.sin(Math.PI * argument) / (Math.PI * argument);
+      const value = 2 * cutoff * sinc * window;
+      table[phase * taps + tap] = value;
+      sum += value;
+    }
+    // Unity gain at DC for every phase, so constant signals come through without ripple.
+    for (let tap = 0; tap < taps; tap += 1) {
+      table[phase * taps + tap] /= sum;
+    }
+  }
+
+  return { halfTaps, phases, table };
+}
+
+function appendSamples(head: Float32Array, tail: Float32Array): Float32Array {
+  const joined = new Float32Array(head.length + tail.length);
+  joined.set(head);
+  joined.set(tail, head.length);
+  return joined;
+}
+
+export interface Resampler {
+  // Converts the next block of input and returns the output samples it completes; the rest follow with later
+  // blocks or flush().
+  process(samples: Float32Array): Float32Array;
+  // Returns the remaining output, treating everything after the last input sample as silence.
+  flush(): Float32Array;
+}
+
+// Streaming form of resample(): only the input still under the kernel is kept between blocks, and the output
+// is the same as converting the whole signal at once.
+export function createResampler(
+  sourceRate: number,
+  targetRate: number,
+  quality: ResampleQuality = DEFAULT_RESAMPLE_QUALITY,
+): Resampler {
+  if (sourceRate === targetRate) {
+    return { process: (samples) => samples, flush: () => new Float32Array(0) };
+  }
+
+  const divisor = greatestCommonDivisor(targetRate, sourceRate);
+  const upFactor = targetRate / divisor;
+  const downFactor = sourceRate / divisor;
+  const { halfTaps, phases, table } = buildKernel(RESAMPLE_QUALITIES[quality], upFactor, downFactor);
+  const taps = 2 * halfTaps;
+  // Input samples from bufferStart onwards; earlier ones are no longer under the kernel.
+  let buffered: Float32Array = new Float32Array(0);
+  let bufferStart = 0;
+  let inputLength = 0;
+  let nextOutput = 0;
+
+  const render = (outputEnd: number): Float32Array => {
+    const output = new Float32Array(Math.max(0, outputEnd - nextOutput));
+    for (let offset = 0; offset < output.length; offset += 1) {
+      // Output sample n sits at input position n * M / L; integer arithmetic keeps the phase exact.
+      const position = (nextOutput + offset) * downFactor;
+      const base = Math.floor(position / upFactor);
+      const phasePosition = ((position - base * upFactor) * phases) / upFactor;
+      const phase = Math.floor(phasePosition);
+      const weight = phasePosition - phase;
+      const first = base - halfTaps + 1;
+
+      let value = 0;
+      let nextValue = 0;
+      for (let tap = 0; tap < taps; tap += 1) {
+        const sourceIndex = first + tap;
+        if (sourceIndex < 0 || sourceIndex >= inputLength) {
+          continue;
+        }
+        const sample = buffered[sourceIndex - bufferStart];
+        value += sample * table[phase * taps + tap];
+        if (weight > 0) {
+          nextValue += sample * table[(phase + 1) * taps + tap];
+        }
+      }
+      output[offset] = weight > 0 ? value + (nextValue - value) * weight : value;
+    }
+
+    nextOutput = Math.max(nextOutput, outputEnd);
+    const keepFrom = Math.max(bufferStart, Math.floor((nextOutput * downFactor) / upFactor) - halfTaps + 1);
+    buffered = buffered.slice(Math.min(buffered.length, keepFrom - bufferStart));
+    bufferStart = keepFrom;
+    return output;
+  };
+
+  return {
+    process(samples) {
+      buffered = appendSamples(buffered, samples);
+      inputLength += samples.length;
+      // Output n is complete once its last tap, input sample floor(n * M / L) + halfTaps, has arrived.
+      return render(Math.ceil(((inputLength - halfTaps) * upFactor) / downFactor));
+    },
+    flush() {
+      return render(Math.round((inputLength * upFactor) / downFactor));
+    },
+  };
+}
+
+export function resample(
+  samples: Float32Array,
+  sourceRate: number,
+  targetRate: number,
+  quality: ResampleQuality = DEFAULT_RESAMPLE_QUALITY,
+): Float32Array {
+  if (sourceRate === targetRate) {
+    return samples;
+  }
+
+  const resampler = createResampler(sourceRate, targetRate, quality);
+  const output = appendSamples(resampler.process(samples), resampler.flush());
+  return output.length > 0 ? output : new Float32Array(1);
+}
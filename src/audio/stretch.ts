@@ -0,0 +1,95 @@
+// Duration ratios (output length / input length) that clips may be stretched by before the timeline
+// falls back to truncation or silence.
+export const DEFAULT_STRETCH_MIN_RATIO = 0.85;
+export const DEFAULT_STRETCH_MAX_RATIO = 1.2;
+
+const FRAME_SEC = 0.03;
+const SEEK_SEC = 0.008;
+// Cross-correlation is evaluated on every other sample and offset; plenty for speech and 4x cheaper.
+const SEEK_STRIDE = 2;
+
+export interface StretchRange {
+  minRatio: number;
+  maxRatio: number;
+}
+
+function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let index = 0; index < size; index += 1) {
+    window[index] = 0.5 - 0.5 * Math.cos((2 * Math.PI * index) / size);
+  }
+  return window;
+}
+
+// Ratio needed for a clip to end exactly on its window, limited to the allowed range.
+export function clampStretchRatio(durationSec: number, windowSec: number, range: StretchRange): number {
+  if (durationSec <= 0 || windowSec <= 0) {
+    return 1;
+  }
+  return Math.min(range.maxRatio, Math.max(range.minRatio, windowSec / durationSec));
+}
+
+// Pitch-preserving time-stretch (WSOLA). Frames are read from the input at a hop scaled by 1/ratio and
+// overlap-added at a fixed output hop; each frame is shifted by up to SEEK_SEC so it lines up with the
+// natural continuation of the previous one, which avoids the phasing artefacts of plain OLA.
+export function timeStretch(samples: Int16Array, sampleRate: number, ratio: number): Int16Array {
+  if (samples.length === 0 || Math.abs(ratio - 1) < 0.001) {
+    return samples;
+  }
+
+  const frameSize = Math.max(4, Math.round((FRAME_SEC * sampleRate) / 2) * 2);
+  const synthesisHop = frameSize / 2;
+  const analysisHop = synthesisHop / ratio;
+  const seek = Math.round(SEEK_SEC * sampleRate);
+  const window = hannWindow(frameSize);
+
+  const outputLength = Math.max(1, Math.round(samples.length * ratio));
+  const output = new Float32Array(outputLength + frameSize);
+  const weights = new Float32Array(outputLength + frameSize);
+  const lastStart = Math.max(0, samples.length - frameSize);
+
+  const sampleAt = (index: number): number => (index >= 0 && index < samples.length ? samples[index] : 0);
+
+  let previousStart = 0;
+  for (let frame = 0; frame * synthesisHop < outputLength; frame += 1) {
+    const nominal = Math.min(lastStart, Math.round(frame * analysisHop));
+    let start = nominal;
+
+    if (frame > 0) {
+      // Where the previous frame would have continued had we not skipped or repeated audio.
+      const continuation = previousStart + synthesisHop;
+      let bestScore = Number.NEGATIVE_INFINITY;
+
+      for (let offset = -seek; offset <= seek; offset += SEEK_STRIDE) {
+        const candidate = nominal + offset;
+        if (candidate < 0 || candidate > lastStart) {
+          continue;
+        }
+
+        let score = 0;
+        for (let index = 0; index < synthesisHop; index += SEEK_STRIDE) {
+          score += sampleAt(continuation + index) * sampleAt(candidate + index);
+        }
+        if (score > bestScore) {
+          bestScore = score;
+          start = candidate;
+        }
+      }
+    }
+
+    const outputStart = frame * synthesisHop;
+    for (let index = 0; index < frameSize; index += 1) {
+      output[outputStart + index] += sampleAt(start + index) * window[index];
+      weights[outputStart + index] += window[index];
+    }
+    previousStart = start;
+  }
+
+  const stretched = new Int16Array(outputLength);
+  for (let index = 0; index < outputLength; index += 1) {
+    const value = weights[index] > 1e-3 ? output[index] / weights[index] : 0;
+    stretched[index] = Math.max(-32768, Math.min(32767, Math.round(value)));
+  }
+
+  return stretched;
+}
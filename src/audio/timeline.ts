@@ -1,26 +1,25 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { readWavPcm16Mono, writeWavPcm16Mono } from "./wav.js";
-import type { SynthesizedSegment } from "../gemini/tts.js";
+import { DEFAULT_CLIP_FADES, fadeIn, fadeOut, trimSilence, type ClipFadeOptions } from "./fade.js";
+import { clampStretchRatio, timeStretch, type StretchRange } from "./stretch.js";
+import { matchLoudness, type LoudnessReport, type LoudnessTarget, type SegmentLoudness } from "./loudness.js";
+import { writeRenderedTrack, type BlockRenderer } from "./render.js";
+import { resample, type ResampleQuality } from "./resample.js";
+import { pcm16ToFloat, readWavPcm16Mono } from "./wav.js";
+import type { SynthesizedSegment } from "../tts/synthesize.js";
 
-function resampleLinear(samples: Int16Array, sourceRate: number, targetRate: number): Int16Array {
-  if (sourceRate === targetRate) {
-    return samples;
-  }
+export const DEFAULT_TIMELINE_SAMPLE_RATE = 24000;
 
-  const ratio = targetRate / sourceRate;
-  const targetLength = Math.max(1, Math.round(samples.length * ratio));
-  const output = new Int16Array(targetLength);
+// Level matching never moves a clip further than this, so a near-silent clip is not pumped up into noise.
+const MAX_SEGMENT_GAIN_DB = 12;
 
-  for (let index = 0; index < targetLength; index += 1) {
-    const sourcePosition = index / ratio;
-    const left = Math.floor(sourcePosition);
-    const right = Math.min(left + 1, samples.length - 1);
-    const alpha = sourcePosition - left;
-    output[index] = Math.round(samples[left] * (1 - alpha) + samples[right] * alpha);
-  }
+// The timeline is rendered in blocks of this length, so memory use does not grow with the media duration.
+const RENDER_BLOCK_SEC = 1;
 
-  return output;
+interface PlacedClip {
+  startIndex: number;
+  // Trimmed, stretched, resampled, level matched and faded; already cut to the length it plays for.
+  samples: Float32Array;
 }
 
 export async function composeDubbedTimeline(params: {
@@ -28,40 +27,115 @@ export async function composeDubbedTimeline(params: {
   outputWavPath: string;
   targetSampleRate?: number;
   mediaDurationSec?: number;
-}): Promise<void> {
+  // Clips are time-stretched within this range to end on their window; omit to only truncate.
+  stretch?: StretchRange;
+  // Voice-over delay: every clip and its window start this long after the original segment.
+  leadInSec?: number;
+  // Converts clips from the TTS rate to the timeline rate; see resample.ts.
+  resampleQuality?: ResampleQuality;
+  // Fades, crossfades and silence trimming at clip boundaries; defaults to DEFAULT_CLIP_FADES.
+  fades?: ClipFadeOptions;
+  // Matches every clip to the target level, then normalizes and true-peak limits the sum instead of clamping it.
+  loudness?: LoudnessTarget;
+}): Promise<LoudnessReport | undefined> {
   if (params.segments.length === 0) {
     throw new Error("No synthesized segments were provided.");
   }
 
   await fs.mkdir(path.dirname(params.outputWavPath), { recursive: true });
 
-  const sampleRate = params.targetSampleRate ?? 24000;
+  const sampleRate = params.targetSampleRate ?? DEFAULT_TIMELINE_SAMPLE_RATE;
+  const leadInSec = params.leadInSec ?? 0;
   const inferredDuration = Math.max(
-    ...params.segments.map((segment) => segment.endSec),
-    ...params.segments.map((segment) => segment.startSec + segment.durationSec),
+    ...params.segments.map((segment) => segment.endSec + leadInSec),
+    ...params.segments.map((segment) => segment.startSec + leadInSec + segment.durationSec),
   );
   const durationSec = Math.max(params.mediaDurationSec ?? 0, inferredDuration);
   const totalSamples = Math.max(1, Math.ceil(durationSec * sampleRate));
-  const accumulator = new Int32Array(totalSamples);
+  const segmentLoudness: SegmentLoudness[] = [];
+  const fades = params.fades ?? DEFAULT_CLIP_FADES;
+  const fadeInSamples = Math.round((fades.fadeInMs / 1000) * sampleRate);
+  const fadeOutSamples = Math.round((fades.fadeOutMs / 1000) * sampleRate);
+  const crossfadeSamples = Math.round((fades.crossfadeMs / 1000) * sampleRate);
+  const startIndexOf = (segment: SynthesizedSegment): number =>
+    Math.max(0, Math.round((segment.startSec + leadInSec) * sampleRate));
 
-  for (const segment of params.segments) {
+  // Placed in time order so each clip knows where the next one starts. A crossfade decided at the end of one
+  // clip is carried over as the fade-in of the next.
+  const ordered = [...params.segments].sort((a, b) => a.startSec - b.startSec);
+  let carriedCrossfade = 0;
+  let nextToPlace = 0;
+  const placeNextClip = async (): Promise<PlacedClip> => {
+    const position = nextToPlace;
+    nextToPlace += 1;
+    const segment = ordered[position];
     const wav = await readWavPcm16Mono(segment.wavPath);
-    const source = resampleLinear(wav.samples, wav.sampleRate, sampleRate);
+    const speech =
+      fades.trimSilenceDb === undefined ? wav.samples : trimSilence(wav.samples, wav.sampleRate, fades.trimSilenceDb);
+    const windowSec = segment.endSec - segment.startSec;
+    const clipSec = speech.length / wav.sampleRate;
+    const ratio = params.stretch ? clampStretchRatio(clipSec, windowSec, params.stretch) : 1;
+    const stretched = timeStretch(speech, wav.sampleRate, ratio);
+    const source = resample(pcm16ToFloat(stretched), wav.sampleRate, sampleRate, params.resampleQuality);
 
-    const segmentStartIndex = Math.max(0, Math.round(segment.startSec * sampleRate));
-    const targetWindowSamples = Math.max(1, Math.round((segment.endSec - segment.startSec) * sampleRate));
-    const maxWritable = Math.max(0, totalSamples - segmentStartIndex);
-    const writableCount = Math.min(source.length, targetWindowSamples, maxWritable);
+    if (params.loudness) {
+      const matched = matchLoudness(source, sampleRate, params.loudness.integratedLufs, MAX_SEGMENT_GAIN_DB);
+      segmentLoudness.push({ index: segment.index, ...matched });
+    }
 
-    for (let sampleIndex = 0; sampleIndex < writableCount; sampleIndex += 1) {
-      accumulator[segmentStartIndex + sampleIndex] += source[sampleIndex];
+    // Anything the stretch range could not absorb is still cut off at the end of the window, behind a fade-out.
+    const segmentStartIndex = startIndexOf(segment);
+    const targetWindowSamples = Math.max(1, Math.round(windowSec * sampleRate));
+    const availableCount = Math.min(source.length, Math.max(0, totalSamples - segmentStartIndex));
+    let writableCount = Math.min(availableCount, targetWindowSamples);
+
+    // Where the next clip starts within crossfadeMs of the point this one ends or is cut off, the two crossfade
+    // over the first crossfadeMs of the next clip. A cut-off clip plays on into that span, so the crossfade has
+    // material. Clips that overlap by more than that are two people talking at once, and both are kept whole.
+    const next = ordered[position + 1];
+    const nextOffset = next ? startIndexOf(next) - segmentStartIndex : Infinity;
+    const touches = nextOffset <= writableCount && nextOffset >= writableCount - crossfadeSamples;
+    const crossfade = touches ? Math.max(0, Math.min(crossfadeSamples, availableCount - nextOffset)) : 0;
+    if (crossfade > 0) {
+      writableCount = nextOffset + crossfade;
     }
-  }
 
-  const finalSamples = new Int16Array(totalSamples);
-  for (let index = 0; index < totalSamples; index += 1) {
-    finalSamples[index] = Math.max(-32768, Math.min(32767, accumulator[index]));
-  }
+    const clip = source.subarray(0, writableCount);
+    fadeIn(clip, carriedCrossfade > 0 ? carriedCrossfade : fadeInSamples);
+    fadeOut(clip, writableCount, crossfade > 0 ? crossfade : fadeOutSamples);
+    carriedCrossfade = crossfade;
+    return { startIndex: segmentStartIndex, samples: clip };
+  };
+
+  // Sums the clips block by block. A clip is prepared when the block it starts in comes up and dropped after
+  // the block it ends in. See render.ts for how the blocks reach the WAV file.
+  const blockSamples = Math.max(1, Math.round(RENDER_BLOCK_SEC * sampleRate));
+  const renderBlocks: BlockRenderer = async (onBlock) => {
+    let active: PlacedClip[] = [];
+    for (let blockStart = 0; blockStart < totalSamples; blockStart += blockSamples) {
+      const blockEnd = Math.min(totalSamples, blockStart + blockSamples);
+      while (nextToPlace < ordered.length && startIndexOf(ordered[nextToPlace]) < blockEnd) {
+        active.push(await placeNextClip());
+      }
+
+      const block = new Float32Array(blockEnd - blockStart);
+      for (const clip of active) {
+        const from = Math.max(blockStart, clip.startIndex);
+        const to = Math.min(blockEnd, clip.startIndex + clip.samples.length);
+        for (let index = from; index < to; index += 1) {
+          block[index - blockStart] += clip.samples[index - clip.startIndex];
+        }
+      }
+      active = active.filter((clip) => clip.startIndex + clip.samples.length > blockEnd);
+      await onBlock(block);
+    }
+  };
 
-  await writeWavPcm16Mono(params.outputWavPath, sampleRate, finalSamples);
+  const output = await writeRenderedTrack({
+    outputWavPath: params.outputWavPath,
+    sampleRate,
+    render: renderBlocks,
+    loudness: params.loudness,
+  });
+  return params.loudness && output ? { target: params.loudness, segments: segmentLoudness, output } : undefined;
 }
@@ -1,4 +1,24 @@
 import fs from "node:fs/promises";
+import os from "node:os";
+
+// 8, 16, 24 and 32-bit integer PCM (8-bit is unsigned, as WAV stores it) and 32-bit IEEE float.
+export type WavSampleFormat = "pcm8" | "pcm16" | "pcm24" | "pcm32" | "float32";
+
+export const WAV_SAMPLE_FORMATS: WavSampleFormat[] = ["pcm8", "pcm16", "pcm24", "pcm32", "float32"];
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  sampleFormat: WavSampleFormat;
+  // Speaker positions of a WAVE_FORMAT_EXTENSIBLE header (e.g. 0x3 for front left and right); 0 leaves them
+  // unassigned.
+  channelMask?: number;
+}
+
+// One float array per channel. Integer formats decode to [-1, 1); float files can go past full scale.
+export interface WavAudio extends WavFormat {
+  channelData: Float32Array[];
+}
 
 interface WavReadResult {
   sampleRate: number;
@@ -7,127 +27,465 @@ interface WavReadResult {
   samples: Int16Array;
 }
 
-function writeString(target: Buffer, offset: number, value: string): void {
-  target.write(value, offset, "ascii");
+const FORMAT_PCM = 0x0001;
+const FORMAT_IEEE_FLOAT = 0x0003;
+const FORMAT_EXTENSIBLE = 0xfffe;
+// Bytes 2-15 of the KSDATAFORMAT_SUBTYPE_PCM and _IEEE_FLOAT GUIDs; bytes 0-1 hold the plain format tag.
+const SUBFORMAT_GUID_TAIL = Buffer.from("000000001000800000aa00389b71", "hex");
+
+// RIFF and chunk sizes are 32-bit. Past that a file becomes RF64: the sizes read 0xFFFFFFFF and the real ones
+// are in a ds64 chunk right after the RIFF header.
+const RIFF_SIZE_LIMIT = 0xffffffff;
+const DS64_BODY_SIZE = 28;
+
+// Frames decoded or encoded per file read or write, so memory use does not depend on the file length.
+const BLOCK_FRAMES = 65536;
+
+const BYTES_PER_SAMPLE: Record<WavSampleFormat, number> = {
+  pcm8: 1,
+  pcm16: 2,
+  pcm24: 3,
+  pcm32: 4,
+  float32: 4,
+};
+
+// Rounds to an integer format with `scale` steps per unit, clamping anything outside [-1, 1).
+function quantize(value: number, scale: number): number {
+  return Math.max(-scale, Math.min(scale - 1, Math.round(value * scale)));
 }
 
-export function pcm16ToWavBuffer(pcmData: Buffer, sampleRate: number, channels = 1): Buffer {
-  const bitsPerSample = 16;
-  const byteRate = sampleRate * channels * (bitsPerSample / 8);
-  const blockAlign = channels * (bitsPerSample / 8);
-  const dataSize = pcmData.length;
-
-  const header = Buffer.alloc(44);
-  writeString(header, 0, "RIFF");
-  header.writeUInt32LE(36 + dataSize, 4);
-  writeString(header, 8, "WAVE");
-  writeString(header, 12, "fmt ");
-  header.writeUInt32LE(16, 16);
-  header.writeUInt16LE(1, 20);
-  header.writeUInt16LE(channels, 22);
-  header.writeUInt32LE(sampleRate, 24);
-  header.writeUInt32LE(byteRate, 28);
-  header.writeUInt16LE(blockAlign, 32);
-  header.writeUInt16LE(bitsPerSample, 34);
-  writeString(header, 36, "data");
-  header.writeUInt32LE(dataSize, 40);
-
-  return Buffer.concat([header, pcmData]);
+const SAMPLE_READERS: Record<WavSampleFormat, (view: DataView, offset: number) => number> = {
+  pcm8: (view, offset) => (view.getUint8(offset) - 128) / 128,
+  pcm16: (view, offset) => view.getInt16(offset, true) / 32768,
+  pcm24: (view, offset) => (view.getUint16(offset, true) | (view.getInt8(offset + 2) << 16)) / 8388608,
+  pcm32: (view, offset) => view.getInt32(offset, true) / 2147483648,
+  float32: (view, offset) => view.getFloat32(offset, true),
+};
+
+const SAMPLE_WRITERS: Record<WavSampleFormat, (view: DataView, offset: number, value: number) => void> = {
+  pcm8: (view, offset, value) => view.setUint8(offset, quantize(value, 128) + 128),
+  pcm16: (view, offset, value) => view.setInt16(offset, quantize(value, 32768), true),
+  pcm24: (view, offset, value) => {
+    const sample = quantize(value, 8388608);
+    view.setUint16(offset, sample & 0xffff, true);
+    view.setInt8(offset + 2, sample >> 16);
+  },
+  pcm32: (view, offset, value) => view.setInt32(offset, quantize(value, 2147483648), true),
+  float32: (view, offset, value) => view.setFloat32(offset, value, true),
+};
+
+function blockAlignOf(format: WavFormat): number {
+  return format.channels * BYTES_PER_SAMPLE[format.sampleFormat];
 }
 
-export async function writeWavFromPcm16(params: {
-  outputPath: string;
-  pcmData: Buffer;
-  sampleRate: number;
-  channels?: number;
-}): Promise<void> {
-  const wav = pcm16ToWavBuffer(params.pcmData, params.sampleRate, params.channels ?? 1);
-  await fs.writeFile(params.outputPath, wav);
+function sampleFormatOf(formatTag: number, bitsPerSample: number): WavSampleFormat | undefined {
+  if (formatTag === FORMAT_IEEE_FLOAT) {
+    return bitsPerSample === 32 ? "float32" : undefined;
+  }
+  if (formatTag === FORMAT_PCM) {
+    return WAV_SAMPLE_FORMATS.find(
+      (sampleFormat) => sampleFormat !== "float32" && BYTES_PER_SAMPLE[sampleFormat] * 8 === bitsPerSample,
+    );
+  }
+  return undefined;
 }
 
-export async function readWavPcm16Mono(path: string): Promise<WavReadResult> {
-  const data = await fs.readFile(path);
-  if (data.length < 44) {
-    throw new Error(`Invalid WAV file (too small): ${path}`);
+function parseFmtChunk(body: Buffer, path: string): WavFormat {
+  if (body.length < 16) {
+    throw new Error(`Invalid WAV fmt chunk: ${path}`);
+  }
+
+  let formatTag = body.readUInt16LE(0);
+  const channels = body.readUInt16LE(2);
+  const sampleRate = body.readUInt32LE(4);
+  const bitsPerSample = body.readUInt16LE(14);
+  let channelMask: number | undefined;
+
+  // The extensible header carries the real format tag in the first bytes of its sub-format GUID. Samples are
+  // decoded at their container size; fewer valid bits only means the low bits are zero.
+  if (formatTag === FORMAT_EXTENSIBLE) {
+    if (body.length < 40 || !body.subarray(26, 40).equals(SUBFORMAT_GUID_TAIL)) {
+      throw new Error(`Unsupported WAVE_FORMAT_EXTENSIBLE sub-format: ${path}`);
+    }
+    channelMask = body.readUInt32LE(20);
+    formatTag = body.readUInt16LE(24);
   }
 
-  const riff = data.toString("ascii", 0, 4);
-  const wave = data.toString("ascii", 8, 12);
-  if (riff !== "RIFF" || wave !== "WAVE") {
+  const sampleFormat = sampleFormatOf(formatTag, bitsPerSample);
+  if (!sampleFormat) {
+    const tag = formatTag.toString(16).padStart(4, "0");
+    throw new Error(`Unsupported WAV encoding (format tag 0x${tag}, ${bitsPerSample}-bit): ${path}`);
+  }
+  if (channels === 0 || sampleRate === 0) {
+    throw new Error(`Invalid WAV fmt chunk: ${path}`);
+  }
+
+  return { sampleRate, channels, sampleFormat, channelMask };
+}
+
+// WAVE_FORMAT_EXTENSIBLE is required for more than two channels or more than 16 bits; plain headers are kept
+// otherwise because every reader understands them.
+function usesExtensibleHeader(format: WavFormat): boolean {
+  return format.channels > 2 || BYTES_PER_SAMPLE[format.sampleFormat] > 2 || Boolean(format.channelMask);
+}
+
+function defaultChannelMask(channels: number): number {
+  if (channels === 1) {
+    return 0x4;
+  }
+  return channels === 2 ? 0x3 : 0;
+}
+
+function fmtChunkBody(format: WavFormat): Buffer {
+  const bitsPerSample = BYTES_PER_SAMPLE[format.sampleFormat] * 8;
+  const formatTag = format.sampleFormat === "float32" ? FORMAT_IEEE_FLOAT : FORMAT_PCM;
+  const extensible = usesExtensibleHeader(format);
+  const body = Buffer.alloc(extensible ? 40 : 16);
+
+  body.writeUInt16LE(extensible ? FORMAT_EXTENSIBLE : formatTag, 0);
+  body.writeUInt16LE(format.channels, 2);
+  body.writeUInt32LE(format.sampleRate, 4);
+  body.writeUInt32LE(format.sampleRate * blockAlignOf(format), 8);
+  body.writeUInt16LE(blockAlignOf(format), 12);
+  body.writeUInt16LE(bitsPerSample, 14);
+  if (extensible) {
+    body.writeUInt16LE(22, 16);
+    body.writeUInt16LE(bitsPerSample, 18);
+    body.writeUInt32LE(format.channelMask || defaultChannelMask(format.channels), 20);
+    body.writeUInt16LE(formatTag, 24);
+    SUBFORMAT_GUID_TAIL.copy(body, 26);
+  }
+  return body;
+}
+
+function chunkHeader(chunkId: string, size: number): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(chunkId, 0, "ascii");
+  header.writeUInt32LE(size, 4);
+  return header;
+}
+
+function decodeFrames(bytes: Buffer, format: WavFormat): Float32Array[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readSample = SAMPLE_READERS[format.sampleFormat];
+  const width = BYTES_PER_SAMPLE[format.sampleFormat];
+  const blockAlign = blockAlignOf(format);
+  const frameCount = Math.floor(bytes.length / blockAlign);
+
+  const channelData: Float32Array[] = [];
+  for (let channel = 0; channel < format.channels; channel += 1) {
+    const samples = new Float32Array(frameCount);
+    for (let frame = 0, offset = channel * width; frame < frameCount; frame += 1, offset += blockAlign) {
+      samples[frame] = readSample(view, offset);
+    }
+    channelData.push(samples);
+  }
+  return channelData;
+}
+
+function encodeFrames(channelData: Float32Array[], format: WavFormat): Buffer {
+  const writeSample = SAMPLE_WRITERS[format.sampleFormat];
+  const width = BYTES_PER_SAMPLE[format.sampleFormat];
+  const blockAlign = blockAlignOf(format);
+  const frameCount = channelData[0]?.length ?? 0;
+  const bytes = Buffer.alloc(frameCount * blockAlign);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  channelData.forEach((samples, channel) => {
+    for (let frame = 0, offset = channel * width; frame < frameCount; frame += 1, offset += blockAlign) {
+      writeSample(view, offset, samples[frame]);
+    }
+  });
+  return bytes;
+}
+
+async function readBytes(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+interface WavLayout {
+  format: WavFormat;
+  dataOffset: number;
+  frameCount: number;
+}
+
+// Walks the chunk list up to the data chunk, reading only chunk headers and the fmt and ds64 bodies.
+async function readWavLayout(handle: fs.FileHandle, path: string): Promise<WavLayout> {
+  const { size: fileSize } = await handle.stat();
+  const header = await readBytes(handle, 0, 12);
+  const riffId = header.toString("ascii", 0, 4);
+  if (header.length < 12 || !["RIFF", "RF64", "BW64"].includes(riffId) || header.toString("ascii", 8, 12) !== "WAVE") {
     throw new Error(`Unsupported WAV header: ${path}`);
   }
 
+  let format: WavFormat | undefined;
+  let ds64DataSize: number | undefined;
   let offset = 12;
-  let channels = 1;
-  let sampleRate = 24000;
-  let bitsPerSample = 16;
-  let pcmOffset = -1;
-  let pcmSize = 0;
-
-  while (offset + 8 <= data.length) {
-    const chunkId = data.toString("ascii", offset, offset + 4);
-    const chunkSize = data.readUInt32LE(offset + 4);
+
+  while (offset + 8 <= fileSize) {
+    const chunk = await readBytes(handle, offset, 8);
+    const chunkId = chunk.toString("ascii", 0, 4);
+    const chunkSize = chunk.readUInt32LE(4);
     const chunkDataOffset = offset + 8;
 
+    if (chunkId === "ds64") {
+      const body = await readBytes(handle, chunkDataOffset, 16);
+      if (body.length < 16) {
+        throw new Error(`Invalid RF64 ds64 chunk: ${path}`);
+      }
+      ds64DataSize = Number(body.readBigUInt64LE(8));
+    }
+
     if (chunkId === "fmt ") {
-      channels = data.readUInt16LE(chunkDataOffset + 2);
-      sampleRate = data.readUInt32LE(chunkDataOffset + 4);
-      bitsPerSample = data.readUInt16LE(chunkDataOffset + 14);
+      format = parseFmtChunk(await readBytes(handle, chunkDataOffset, Math.min(chunkSize, 40)), path);
     }
 
     if (chunkId === "data") {
-      pcmOffset = chunkDataOffset;
-      pcmSize = chunkSize;
-      break;
+      if (!format) {
+        throw new Error(`WAV fmt chunk not found before the data chunk: ${path}`);
+      }
+      const declaredSize = chunkSize === RIFF_SIZE_LIMIT && ds64DataSize !== undefined ? ds64DataSize : chunkSize;
+      // The declared size is capped at the bytes left in the file, so a truncated file reads up to where it ends.
+      const dataSize = Math.min(declaredSize, fileSize - chunkDataOffset);
+      return { format, dataOffset: chunkDataOffset, frameCount: Math.floor(dataSize / blockAlignOf(format)) };
     }
 
-    offset = chunkDataOffset + chunkSize;
+    // Chunk bodies are padded to an even length; the pad byte is not part of the chunk size.
+    offset = chunkDataOffset + chunkSize + (chunkSize % 2);
   }
 
-  if (pcmOffset < 0) {
-    throw new Error(`WAV data chunk not found: ${path}`);
+  throw new Error(`WAV data chunk not found: ${path}`);
+}
+
+export interface WavReader {
+  format: WavFormat;
+  frameCount: number;
+  // Decodes the next frames, at most maxFrames and at most BLOCK_FRAMES (65536) per call; the arrays come back
+  // empty once the data chunk is exhausted.
+  read(maxFrames: number): Promise<Float32Array[]>;
+  close(): Promise<void>;
+}
+
+// Reads a WAV or RF64 file incrementally, so files larger than memory (or than a Buffer) can be processed.
+export async function openWavReader(path: string): Promise<WavReader> {
+  const handle = await fs.open(path, "r");
+  let layout: WavLayout;
+  try {
+    layout = await readWavLayout(handle, path);
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+
+  const { format, dataOffset, frameCount } = layout;
+  const blockAlign = blockAlignOf(format);
+  let nextFrame = 0;
+
+  return {
+    format,
+    frameCount,
+    async read(maxFrames) {
+      const count = Math.max(0, Math.min(maxFrames, BLOCK_FRAMES, frameCount - nextFrame));
+      const bytes = await readBytes(handle, dataOffset + nextFrame * blockAlign, count * blockAlign);
+      nextFrame += count;
+      return decodeFrames(bytes, format);
+    },
+    close: () => handle.close(),
+  };
+}
+
+async function readBlocks(
+  reader: WavReader,
+  onBlock: (channelData: Float32Array[], startFrame: number) => void,
+): Promise<void> {
+  for (let frame = 0; frame < reader.frameCount; ) {
+    const block = await reader.read(BLOCK_FRAMES);
+    if (block[0].length === 0) {
+      break;
+    }
+    onBlock(block, frame);
+    frame += block[0].length;
   }
+}
 
-  if (bitsPerSample !== 16) {
-    throw new Error(`Only 16-bit PCM WAV is supported: ${path}`);
+export async function readWav(path: string): Promise<WavAudio> {
+  const reader = await openWavReader(path);
+  try {
+    const channelData = Array.from({ length: reader.format.channels }, () => new Float32Array(reader.frameCount));
+    await readBlocks(reader, (block, startFrame) => {
+      block.forEach((samples, channel) => channelData[channel].set(samples, startFrame));
+    });
+    return { ...reader.format, channelData };
+  } finally {
+    await reader.close();
   }
+}
 
-  const pcm = data.subarray(pcmOffset, pcmOffset + pcmSize);
-  if (channels === 1) {
-    return {
-      sampleRate,
-      channels,
-      bitsPerSample,
-      samples: new Int16Array(pcm.buffer, pcm.byteOffset, pcm.length / 2),
-    };
-  }
-
-  // Downmix multi-channel audio to mono by averaging channels.
-  const totalFrames = pcm.length / 2 / channels;
-  const source = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.length / 2);
-  const mono = new Int16Array(totalFrames);
-
-  for (let frame = 0; frame < totalFrames; frame += 1) {
-    let sum = 0;
-    for (let channel = 0; channel < channels; channel += 1) {
-      sum += source[frame * channels + channel];
+// Averages the channels; mono input is returned as is.
+export function downmixToMono(channelData: Float32Array[]): Float32Array {
+  if (channelData.length === 1) {
+    return channelData[0];
+  }
+  const mono = new Float32Array(channelData[0]?.length ?? 0);
+  for (const samples of channelData) {
+    for (let index = 0; index < mono.length; index += 1) {
+      mono[index] += samples[index];
     }
-    mono[frame] = Math.max(-32768, Math.min(32767, Math.round(sum / channels)));
+  }
+  for (let index = 0; index < mono.length; index += 1) {
+    mono[index] /= channelData.length;
+  }
+  return mono;
+}
+
+export function pcm16ToWavBuffer(pcmData: Buffer, sampleRate: number, channels = 1): Buffer {
+  const fmtBody = fmtChunkBody({ sampleRate, channels, sampleFormat: "pcm16" });
+  const padSize = pcmData.length % 2;
+  const header = Buffer.concat([
+    chunkHeader("RIFF", 4 + 8 + fmtBody.length + 8 + pcmData.length + padSize),
+    Buffer.from("WAVE", "ascii"),
+    chunkHeader("fmt ", fmtBody.length),
+    fmtBody,
+    chunkHeader("data", pcmData.length),
+  ]);
+  return Buffer.concat([header, pcmData, Buffer.alloc(padSize)]);
+}
+
+export async function writeWavFromPcm16(params: {
+  outputPath: string;
+  pcmData: Buffer;
+  sampleRate: number;
+  channels?: number;
+}): Promise<void> {
+  const wav = pcm16ToWavBuffer(params.pcmData, params.sampleRate, params.channels ?? 1);
+  await fs.writeFile(params.outputPath, wav);
+}
+
+// Any supported WAV file, downmixed to mono and rounded to 16 bits.
+export async function readWavPcm16Mono(path: string): Promise<WavReadResult> {
+  const reader = await openWavReader(path);
+  try {
+    const samples = new Int16Array(reader.frameCount);
+    await readBlocks(reader, (block, startFrame) => {
+      samples.set(floatToPcm16(downmixToMono(block)), startFrame);
+    });
+    return { sampleRate: reader.format.sampleRate, channels: 1, bitsPerSample: 16, samples };
+  } finally {
+    await reader.close();
+  }
+}
+
+// Little-endian PCM bytes; a view of the samples themselves on little-endian hosts.
+function pcm16Bytes(samples: Int16Array): Buffer {
+  const bytes = Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+  return os.endianness() === "LE" ? bytes : Buffer.from(bytes).swap16();
+}
+
+export async function writeWavPcm16Mono(path: string, sampleRate: number, samples: Int16Array): Promise<void> {
+  await writeWavFromPcm16({ outputPath: path, pcmData: pcm16Bytes(samples), sampleRate, channels: 1 });
+}
+
+export interface WavWriter {
+  // One array per channel, all of the same length.
+  write(channelData: Float32Array[]): Promise<void>;
+  // Pads the data chunk to an even length, patches the sizes into the header and closes the file.
+  close(): Promise<void>;
+}
+
+// Streams audio to a WAV file whose length is not known up front. The header is written with empty sizes and a
+// JUNK chunk the size of a ds64 chunk; close() fills in the sizes, and turns the file into RF64 by overwriting
+// the JUNK chunk when the data has grown past 4 GiB.
+export async function createWavWriter(path: string, format: WavFormat): Promise<WavWriter> {
+  const fmtBody = fmtChunkBody(format);
+  const header = Buffer.concat([
+    chunkHeader("RIFF", 0),
+    Buffer.from("WAVE", "ascii"),
+    chunkHeader("JUNK", DS64_BODY_SIZE),
+    Buffer.alloc(DS64_BODY_SIZE),
+    chunkHeader("fmt ", fmtBody.length),
+    fmtBody,
+    chunkHeader("data", 0),
+  ]);
+  const junkOffset = 12;
+  const dataSizeOffset = header.length - 4;
+  let dataSize = 0;
+
+  const handle = await fs.open(path, "w");
+  try {
+    await handle.write(header);
+  } catch (error) {
+    await handle.close();
+    throw error;
   }
 
   return {
-    sampleRate,
-    channels: 1,
-    bitsPerSample,
-    samples: mono,
+    async write(channelData) {
+      const frameCount = channelData[0]?.length ?? 0;
+      if (channelData.length !== format.channels || channelData.some((samples) => samples.length !== frameCount)) {
+        throw new Error(`Expected ${format.channels} channel(s) of equal length for ${path}.`);
+      }
+      for (let start = 0; start < frameCount; start += BLOCK_FRAMES) {
+        const block = channelData.map((samples) => samples.subarray(start, start + BLOCK_FRAMES));
+        const bytes = encodeFrames(block, format);
+        await handle.write(bytes);
+        dataSize += bytes.length;
+      }
+    },
+    async close() {
+      try {
+        const padSize = dataSize % 2;
+        if (padSize > 0) {
+          await handle.write(Buffer.alloc(padSize));
+        }
+        const riffSize = header.length - 8 + dataSize + padSize;
+        const size = Buffer.alloc(4);
+        if (riffSize <= RIFF_SIZE_LIMIT) {
+          size.writeUInt32LE(riffSize);
+          await handle.write(size, 0, 4, 4);
+          size.writeUInt32LE(dataSize);
+          await handle.write(size, 0, 4, dataSizeOffset);
+          return;
+        }
+
+        const ds64 = Buffer.concat([chunkHeader("ds64", DS64_BODY_SIZE), Buffer.alloc(DS64_BODY_SIZE)]);
+        ds64.writeBigUInt64LE(BigInt(riffSize), 8);
+        ds64.writeBigUInt64LE(BigInt(dataSize), 16);
+        ds64.writeBigUInt64LE(BigInt(dataSize / blockAlignOf(format)), 24);
+        await handle.write(chunkHeader("RF64", RIFF_SIZE_LIMIT), 0, 8, 0);
+        await handle.write(ds64, 0, ds64.length, junkOffset);
+        size.writeUInt32LE(RIFF_SIZE_LIMIT);
+        await handle.write(size, 0, 4, dataSizeOffset);
+      } finally {
+        await handle.close();
+      }
+    },
   };
 }
 
-export async function writeWavPcm16Mono(path: string, sampleRate: number, samples: Int16Array): Promise<void> {
-  const pcm = Buffer.alloc(samples.length * 2);
+export async function writeWav(path: string, audio: WavAudio): Promise<void> {
+  const writer = await createWavWriter(path, audio);
+  try {
+    await writer.write(audio.channelData);
+  } finally {
+    await writer.close();
+  }
+}
+
+export function pcm16ToFloat(samples: Int16Array): Float32Array {
+  const output = new Float32Array(samples.length);
   for (let index = 0; index < samples.length; index += 1) {
-    pcm.writeInt16LE(samples[index], index * 2);
+    output[index] = samples[index] / 32768;
   }
+  return output;
+}
 
-  await writeWavFromPcm16({ outputPath: path, pcmData: pcm, sampleRate, channels: 1 });
+// Rounds to 16-bit PCM, clamping anything outside [-1, 1).
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const output = new Int16Array(samples.length);
+  for (let index = 0; index < samples.length; index += 1) {
+    output[index] = quantize(samples[index], 32768);
+  }
+  return output;
 }
@@ -0,0 +1,140 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+
+export type CacheNamespace = "tts" | "transcription";
+
+const CACHE_NAMESPACES: CacheNamespace[] = ["tts", "transcription"];
+
+export interface CacheNamespaceStats {
+  entries: number;
+  bytes: number;
+  oldestUsedAt?: string;
+  newestUsedAt?: string;
+}
+
+export type CacheStats = Record<CacheNamespace, CacheNamespaceStats>;
+
+export interface PruneOptions {
+  // Entries not used for longer than this are removed.
+  maxAgeDays?: number;
+  // Least recently used entries are removed until the cache fits.
+  maxSizeBytes?: number;
+}
+
+interface CacheEntryInfo {
+  path: string;
+  bytes: number;
+  usedAtMs: number;
+}
+
+// Stable key for a list of request fields; undefined fields are kept as null so positions never shift.
+export function cacheKey(parts: Array<string | number | undefined>): string {
+  return createHash("sha256")
+    .update(JSON.stringify(parts.map((part) => part ?? null)))
+    .digest("hex");
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+// Entries are sharded by the first two hex characters so no directory grows too large.
+export function cacheEntryPath(cacheDir: string, namespace: CacheNamespace, key: string, extension: string): string {
+  return path.join(cacheDir, namespace, key.slice(0, 2), `${key}${extension}`);
+}
+
+// Marks an entry as used, which is what age- and size-based pruning go by. False when there is no entry.
+export async function touchCacheEntry(entryPath: string): Promise<boolean> {
+  const now = new Date();
+  try {
+    await fs.utimes(entryPath, now, now);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Entries appear atomically, so a concurrent reader or an interrupted write never sees a partial file.
+export async function writeCacheEntry(entryPath: string, data: string | Buffer): Promise<void> {
+  await fs.mkdir(path.dirname(entryPath), { recursive: true });
+  const tempPath = `${entryPath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, entryPath);
+}
+
+async function listEntries(cacheDir: string, namespace: CacheNamespace): Promise<CacheEntryInfo[]> {
+  const namespaceDir = path.join(cacheDir, namespace);
+  let shards: string[];
+  try {
+    shards = await fs.readdir(namespaceDir);
+  } catch {
+    return [];
+  }
+
+  const entries: CacheEntryInfo[] = [];
+  for (const shard of shards) {
+    const shardDir = path.join(namespaceDir, shard);
+    for (const name of await fs.readdir(shardDir)) {
+      if (name.endsWith(".tmp")) {
+        continue;
+      }
+      const entryPath = path.join(shardDir, name);
+      const stat = await fs.stat(entryPath);
+      entries.push({ path: entryPath, bytes: stat.size, usedAtMs: stat.mtimeMs });
+    }
+  }
+  return entries;
+}
+
+export async function collectCacheStats(cacheDir: string): Promise<CacheStats> {
+  const stats = {} as CacheStats;
+  for (const namespace of CACHE_NAMESPACES) {
+    const entries = await listEntries(cacheDir, namespace);
+    const usedAt = entries.map((entry) => entry.usedAtMs);
+    stats[namespace] = {
+      entries: entries.length,
+      bytes: entries.reduce((total, entry) => total + entry.bytes, 0),
+      oldestUsedAt: usedAt.length > 0 ? new Date(Math.min(...usedAt)).toISOString() : undefined,
+      newestUsedAt: usedAt.length > 0 ? new Date(Math.max(...usedAt)).toISOString() : undefined,
+    };
+  }
+  return stats;
+}
+
+export async function pruneCache(
+  cacheDir: string,
+  options: PruneOptions,
+): Promise<{ removedEntries: number; removedBytes: number }> {
+  const entries = (await Promise.all(CACHE_NAMESPACES.map((namespace) => listEntries(cacheDir, namespace))))
+    .flat()
+    .sort((a, b) => a.usedAtMs - b.usedAtMs);
+
+  const cutoffMs = options.maxAgeDays !== undefined ? Date.now() - options.maxAgeDays * 86_400_000 : undefined;
+  let totalBytes = entries.reduce((total, entry) => total + entry.bytes, 0);
+  let removedEntries = 0;
+  let removedBytes = 0;
+
+  // Oldest first: expired entries go regardless of size, then more until the size limit is met.
+  for (const entry of entries) {
+    const expired = cutoffMs !== undefined && entry.usedAtMs < cutoffMs;
+    const oversized = options.maxSizeBytes !== undefined && totalBytes > options.maxSizeBytes;
+    if (!expired && !oversized) {
+      break;
+    }
+
+    await fs.rm(entry.path, { force: true });
+    // Drop the shard directory once it is empty; fails harmlessly otherwise.
+    await fs.rmdir(path.dirname(entry.path)).catch(() => undefined);
+    totalBytes -= entry.bytes;
+    removedEntries += 1;
+    removedBytes += entry.bytes;
+  }
+
+  return { removedEntries, removedBytes };
+}
@@ -0,0 +1,253 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import type { LoudnessReport } from "./audio/loudness.js";
+import type { LanguageDetection, PipelineProviders } from "./providers/types.js";
+import type { SynthesizedSegment } from "./tts/synthesize.js";
+import type { DubMode, MediaInfo, RuntimeConfig, Segment, SpeakerProfile } from "./types.js";
+
+export type CheckpointStage = "extract" | "transcribe" | "translate" | "tts" | "timeline" | "mux";
+
+// Stages that run once per target language; the others run once per input.
+const LANGUAGE_STAGES: CheckpointStage[] = ["translate", "tts", "timeline", "mux"];
+
+export interface CheckpointFingerprint {
+  inputPath: string;
+  inputSize: number;
+  inputMtimeMs: number;
+  sourceLanguage: string;
+  targetLanguages: string;
+  transcriptionProvider: string;
+  translationProvider: string;
+  ttsProvider: string;
+  voiceA: string;
+  voiceB: string | null;
+  twoPass: boolean;
+  glossarySha256: string | null;
+  voicePool: string | null;
+  voiceCastSha256: string | null;
+  ttsStyle: string | null;
+  // Timeline and mix options, each group as JSON of the options as passed (null where left at the default).
+  stretch: string;
+  fades: string;
+  loudness: string;
+  dubMode: DubMode;
+  keepBackground: boolean;
+  mixLevels: string;
+}
+
+export interface LanguageCheckpoint {
+  completedStages: CheckpointStage[];
+  segments?: Segment[];
+  synthesizedSegments: SynthesizedSegment[];
+  // Set by the timeline stage when a loudness target is in effect, so a resumed run still reports it.
+  loudness?: LoudnessReport;
+}
+
+export interface CheckpointManifest {
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  fingerprint: CheckpointFingerprint;
+  completedStages: CheckpointStage[];
+  mediaInfo?: MediaInfo;
+  sourceLanguageDetection?: LanguageDetection;
+  segments?: Segment[];
+  speakers?: SpeakerProfile[];
+  languages: Record<string, LanguageCheckpoint>;
+}
+
+const CHECKPOINT_VERSION = 6;
+const CHECKPOINT_FILE_NAME = "checkpoint.json";
+
+export function checkpointPath(artifactsDir: string): string {
+  return path.join(artifactsDir, CHECKPOINT_FILE_NAME);
+}
+
+async function fileSha256(filePath: string | undefined): Promise<string | null> {
+  return filePath
+    ? createHash("sha256")
+        .update(await fs.readFile(filePath))
+        .digest("hex")
+    : null;
+}
+
+// Option values as JSON, with unset options as null so the string does not depend on which keys are present.
+function optionsJson(options: Record<string, unknown>): string {
+  return JSON.stringify(Object.fromEntries(Object.entries(options).map(([key, value]) => [key, value ?? null])));
+}
+
+export async function buildCheckpointFingerprint(
+  config: RuntimeConfig,
+  providers: PipelineProviders,
+): Promise<CheckpointFingerprint> {
+  const stat = await fs.stat(config.inputAbsolutePath);
+
+  return {
+    inputPath: config.inputAbsolutePath,
+    inputSize: stat.size,
+    inputMtimeMs: Math.round(stat.mtimeMs),
+    sourceLanguage: config.sourceLanguage,
+    targetLanguages: config.targets.map((target) => target.language).join(","),
+    transcriptionProvider: providers.transcription.id,
+    translationProvider: providers.translation.id,
+    ttsProvider: providers.tts.id,
+    voiceA: config.voiceA,
+    voiceB: config.voiceB ?? null,
+    twoPass: Boolean(config.twoPass),
+    glossarySha256: await fileSha256(config.glossaryAbsolutePath),
+    voicePool: config.voicePool ?? null,
+    voiceCastSha256: await fileSha256(config.voiceCastAbsolutePath),
+    ttsStyle: config.ttsStyle ?? null,
+    stretch: optionsJson({ min: config.stretchMinRatio, max: config.stretchMaxRatio }),
+    fades: optionsJson({
+      fadeInMs: config.fadeInMs,
+      fadeOutMs: config.fadeOutMs,
+      crossfadeMs: config.crossfadeMs,
+      trimSilenceDb: config.trimSilenceDb,
+      noTrimSilence: config.noTrimSilence,
+    }),
+    loudness: optionsJson({
+      target: config.loudnessTarget,
+      truePeakDbtp: config.truePeakDbtp,
+      resampleQuality: config.resampleQuality,
+    }),
+    dubMode: config.dubMode ?? "replace",
+    keepBackground: Boolean(config.keepBackground),
+    mixLevels: optionsJson({
+      backgroundDb: config.backgroundDb,
+      duckDb: config.duckDb,
+      duckAttackMs: config.duckAttackMs,
+      duckReleaseMs: config.duckReleaseMs,
+      dubDb: config.dubDb,
+      vocalReduction: config.vocalReduction,
+      leadInSec: config.leadInSec,
+      bedDb: config.bedDb,
+    }),
+  };
+}
+
+export function createCheckpoint(fingerprint: CheckpointFingerprint): CheckpointManifest {
+  const now = new Date().toISOString();
+  return {
+    version: CHECKPOINT_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    fingerprint,
+    completedStages: [],
+    languages: {},
+  };
+}
+
+export async function loadCheckpoint(artifactsDir: string): Promise<CheckpointManifest> {
+  const manifestPath = checkpointPath(artifactsDir);
+
+  let content: string;
+  try {
+    content = await fs.readFile(manifestPath, "utf8");
+  } catch {
+    throw new Error(`No checkpoint manifest found to resume from: ${manifestPath}`);
+  }
+
+  let parsed: CheckpointManifest;
+  try {
+    parsed = JSON.parse(content) as CheckpointManifest;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse checkpoint manifest '${manifestPath}': ${message}`);
+  }
+
+  if (parsed.version !== CHECKPOINT_VERSION) {
+    throw new Error(
+      `Checkpoint manifest '${manifestPath}' has version ${String(parsed.version)}, expected ${CHECKPOINT_VERSION}.`,
+    );
+  }
+
+  return parsed;
+}
+
+export function assertCheckpointMatches(
+  manifest: CheckpointManifest,
+  fingerprint: CheckpointFingerprint,
+  keys = Object.keys(fingerprint) as Array<keyof CheckpointFingerprint>,
+): void {
+  const mismatched = keys.filter((key) => manifest.fingerprint[key] !== fingerprint[key]);
+
+  if (mismatched.length > 0) {
+    throw new Error(
+      `Cannot resume: checkpoint was created with different ${mismatched.join(", ")}. ` +
+        "Re-run with the original options, or start a fresh run without --resume.",
+    );
+  }
+}
+
+// Saves of the same manifest are chained, so concurrent TTS workers never write the temp file at once.
+const pendingSaves = new Map<string, Promise<void>>();
+
+export async function saveCheckpoint(artifactsDir: string, manifest: CheckpointManifest): Promise<void> {
+  const manifestPath = checkpointPath(artifactsDir);
+  const previous = pendingSaves.get(manifestPath) ?? Promise.resolve();
+
+  const save = previous
+    .catch(() => undefined)
+    .then(async () => {
+      manifest.updatedAt = new Date().toISOString();
+
+      // Write to a sibling file first so a crash mid-write never leaves a truncated manifest.
+      const tempPath = `${manifestPath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(manifest, null, 2), "utf8");
+      await fs.rename(tempPath, manifestPath);
+    });
+  pendingSaves.set(manifestPath, save);
+
+  try {
+    await save;
+  } finally {
+    if (pendingSaves.get(manifestPath) === save) {
+      pendingSaves.delete(manifestPath);
+    }
+  }
+}
+
+export function languageCheckpoint(manifest: CheckpointManifest, language: string): LanguageCheckpoint {
+  manifest.languages[language] ??= { completedStages: [], synthesizedSegments: [] };
+  return manifest.languages[language];
+}
+
+function stageHolder(
+  manifest: CheckpointManifest,
+  stage: CheckpointStage,
+  language: string | undefined,
+): { completedStages: CheckpointStage[] } {
+  if (!LANGUAGE_STAGES.includes(stage)) {
+    return manifest;
+  }
+  if (!language) {
+    throw new Error(`Checkpoint stage '${stage}' is tracked per target language.`);
+  }
+  return languageCheckpoint(manifest, language);
+}
+
+export function resetStages(manifest: CheckpointManifest, stages: CheckpointStage[], language?: string): void {
+  for (const stage of stages) {
+    const holder = stageHolder(manifest, stage, language);
+    holder.completedStages = holder.completedStages.filter((item) => item !== stage);
+  }
+}
+
+export function isStageComplete(manifest: CheckpointManifest, stage: CheckpointStage, language?: string): boolean {
+  return stageHolder(manifest, stage, language).completedStages.includes(stage);
+}
+
+export async function markStageComplete(
+  artifactsDir: string,
+  manifest: CheckpointManifest,
+  stage: CheckpointStage,
+  language?: string,
+): Promise<void> {
+  const holder = stageHolder(manifest, stage, language);
+  if (!holder.completedStages.includes(stage)) {
+    holder.completedStages.push(stage);
+  }
+  await saveCheckpoint(artifactsDir, manifest);
+}
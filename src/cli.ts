@@ -1,11 +1,14 @@
 #!/usr/bin/env node
 
 import "dotenv/config";
+import path from "node:path";
 import process from "node:process";
 import { Command } from "commander";
-import { parseCliOptions, resolveRuntimeConfig } from "./config.js";
-import { runPipeline } from "./pipeline.js";
+import { DEFAULT_CACHE_DIR, parseCliOptions, resolveRuntimeConfig } from "./config.js";
+import { rerenderFromSegmentsJson, runPipeline } from "./pipeline.js";
 import { logger } from "./logger.js";
+import { createProgressDisplay } from "./progressDisplay.js";
+import { RetryError } from "./util/retry.js";
 
 async function main(): Promise<void> {
   const program = new Command();
@@ -14,16 +17,61 @@ async function main(): Promise<void> {
     .name("voxshift-node")
     .description("Gemini-first Node.js dubbing pipeline")
     .requiredOption("-i, --input <path>", "Input media file path")
-    .requiredOption("--source-language <code>", "Source language code, e.g. en")
-    .requiredOption("--target-language <code>", "Target language code, e.g. es")
+    .requiredOption("--source-language <code>", "Source language code, e.g. en, or auto to detect it")
+    .requiredOption("--target-language <codes>", "Target language code(s), comma-separated, e.g. es or es,fr,de")
     .option("-o, --output <path>", "Output media file path")
     .option("--output-json <path>", "Output JSON sidecar path")
     .option("--model-tier <tier>", "Gemini model tier: flash or pro", "flash")
     .option("--voice-a <voice>", "Primary Gemini voice name", "Kore")
     .option("--voice-b <voice>", "Secondary Gemini voice name")
+    .option("--voice-cast <path>", "Voice cast JSON with fixed voices per speaker label and an optional voice pool")
+    .option("--voice-pool <voices>", "Comma-separated voices handed out to speakers without a fixed voice")
+    .option("--tts-concurrency <count>", "TTS requests in flight at once (default 4)")
+    .option("--tts-requests-per-minute <count>", "Cap on TTS requests per minute")
+    .option("--tts-chars-per-minute <count>", "Cap on characters sent to TTS per minute")
+    .option("--retry-attempts <count>", "Tries per Gemini request before a retryable error is given up on (default 4)")
+    .option("--retry-max-delay-sec <seconds>", "Backoff ceiling between Gemini retries; server hints win (default 30)")
+    .option("--stage-timeout-sec <seconds>", "Fail any single pipeline stage that runs longer than this")
+    .option("--command-timeout-sec <seconds>", "Kill any ffmpeg/ffprobe call that runs longer than this (default 1800)")
+    .option("--tts-style <instruction>", 'House delivery style for every line, e.g. "in a warm podcast voice"')
     .option("--transcribe-model <model>", "Override transcription+translation model")
     .option("--tts-model <model>", "Override TTS model")
+    .option("--provider <name>", "Transcription/translation/TTS provider: gemini or fake (offline tones)", "gemini")
+    .option("--cassette-dir <path>", "Record Gemini responses to, or replay them from, this directory")
+    .option("--cassette-mode <mode>", "Cassette mode: record or replay", "replay")
+    .option("--chunk-sec <seconds>", "Transcribe long audio in windows of about this length, split at silence")
+    .option("--chunk-overlap-sec <seconds>", "Overlap between transcription windows (default 5)")
+    .option("--chunk-concurrency <count>", "Number of transcription windows sent in parallel (default 1)")
+    .option("--fit-tolerance-sec <seconds>", "Allowed TTS overrun past a window before rewriting (default 0.25)")
+    .option("--fit-max-iterations <count>", "Shorten-and-resynthesize attempts per overrunning segment (default 2)")
+    .option("--stretch-min <ratio>", "Shortest duration ratio TTS clips may be compressed to (default 0.85)")
+    .option("--stretch-max <ratio>", "Longest duration ratio TTS clips may be stretched to (default 1.2)")
+    .option("--fade-in-ms <ms>", "Fade-in at the start of every TTS clip (default 5)")
+    .option("--fade-out-ms <ms>", "Fade-out before every TTS clip ends or is cut off (default 10)")
+    .option("--crossfade-ms <ms>", "Equal-power crossfade where a TTS clip runs into the next one (default 30)")
+    .option("--trim-silence-db <db>", "Trim leading/trailing TTS audio quieter than this, in dBFS (default -50)")
+    .option("--no-trim-silence", "Place TTS clips with the silence the engine put around the speech")
+    .option("--dub-mode <mode>", "replace (full dub) or voice-over (original stays audible underneath)", "replace")
+    .option("--lead-in-sec <seconds>", "Voice-over: delay of the translation after the original (default 0.5)")
+    .option("--bed-db <db>", "Voice-over: level of the original audio under the translation (default -12)")
+    .option("--keep-background", "Mix the original audio under the dub, ducked while dubbed speech plays", false)
+    .option("--background-db <db>", "Level of the original audio outside dubbed speech (default 0)")
+    .option("--duck-db <db>", "Extra attenuation of the original audio under dubbed speech (default -15)")
+    .option("--duck-attack-ms <ms>", "Ducking attack time, applied ahead of each segment (default 80)")
+    .option("--duck-release-ms <ms>", "Ducking release time after each segment (default 400)")
+    .option("--dub-db <db>", "Level of the dubbed speech in the mix (default 0)")
+    .option("--loudness-target <target>", "Loudness target: youtube (-14 LUFS), broadcast (-23), LUFS or off (default)")
+    .option("--true-peak-db <dbtp>", "True-peak limiter ceiling for the final mix (default -1)")
+    .option("--resample-quality <preset>", "Sample rate conversion quality: fast, standard or high (default standard)")
+    .option("--vocal-reduction", "Cancel centre-panned dialogue in stereo sources before mixing", false)
+    .option("--two-pass", "Transcribe first, then translate the transcript text in a separate pass", false)
+    .option("--glossary <path>", "Glossary JSON with required term translations and a do-not-translate list")
+    .option("--cache-dir <path>", "Cache for TTS audio and transcripts shared across runs", DEFAULT_CACHE_DIR)
+    .option("--no-cache", "Neither read nor write the cache for this run")
+    .option("--save-clips", "Keep the TTS clips next to the JSON sidecar for re-rendering it without the cache", false)
     .option("--keep-artifacts", "Do not remove temporary artifacts after run", false)
+    .option("--resume <artifactsDir>", "Resume an interrupted run from its artifacts directory")
+    .option("--segments-json <path>", "Re-render from an edited segments JSON instead of transcribing again")
     .addHelpText(
       "after",
       [
@@ -45,9 +93,53 @@ async function main(): Promise<void> {
     modelTier: raw.modelTier,
     voiceA: raw.voiceA,
     voiceB: raw.voiceB,
+    voiceCast: raw.voiceCast,
+    voicePool: raw.voicePool,
+    ttsStyle: raw.ttsStyle,
+    ttsConcurrency: raw.ttsConcurrency,
+    ttsRequestsPerMinute: raw.ttsRequestsPerMinute,
+    ttsCharsPerMinute: raw.ttsCharsPerMinute,
+    retryAttempts: raw.retryAttempts,
+    retryMaxDelaySec: raw.retryMaxDelaySec,
+    stageTimeoutSec: raw.stageTimeoutSec,
+    commandTimeoutSec: raw.commandTimeoutSec,
+    cacheDir: raw.cacheDir,
+    noCache: raw.cache === false,
+    saveClips: Boolean(raw.saveClips),
     transcribeModel: raw.transcribeModel,
     ttsModel: raw.ttsModel,
     keepArtifacts: Boolean(raw.keepArtifacts),
+    resume: raw.resume,
+    provider: raw.provider,
+    cassetteDir: raw.cassetteDir,
+    cassetteMode: raw.cassetteMode,
+    chunkSec: raw.chunkSec,
+    chunkOverlapSec: raw.chunkOverlapSec,
+    chunkConcurrency: raw.chunkConcurrency,
+    fitToleranceSec: raw.fitToleranceSec,
+    fitMaxIterations: raw.fitMaxIterations,
+    stretchMinRatio: raw.stretchMin,
+    stretchMaxRatio: raw.stretchMax,
+    fadeInMs: raw.fadeInMs,
+    fadeOutMs: raw.fadeOutMs,
+    crossfadeMs: raw.crossfadeMs,
+    trimSilenceDb: raw.trimSilenceDb,
+    noTrimSilence: raw.trimSilence === false,
+    keepBackground: Boolean(raw.keepBackground),
+    backgroundDb: raw.backgroundDb,
+    duckDb: raw.duckDb,
+    duckAttackMs: raw.duckAttackMs,
+    duckReleaseMs: raw.duckReleaseMs,
+    dubDb: raw.dubDb,
+    vocalReduction: Boolean(raw.vocalReduction),
+    dubMode: raw.dubMode,
+    leadInSec: raw.leadInSec,
+    bedDb: raw.bedDb,
+    loudnessTarget: raw.loudnessTarget,
+    truePeakDbtp: raw.truePeakDb,
+    resampleQuality: raw.resampleQuality,
+    twoPass: Boolean(raw.twoPass),
+    glossary: raw.glossary,
   });
 
   const runtimeConfig = resolveRuntimeConfig(parsed, process.cwd());
@@ -55,19 +147,54 @@ async function main(): Promise<void> {
   logger.info(
     {
       input: runtimeConfig.inputAbsolutePath,
-      output: runtimeConfig.outputAbsolutePath,
-      outputJson: runtimeConfig.outputJsonAbsolutePath,
+      outputs: runtimeConfig.targets.map((target) => target.outputAbsolutePath),
+      outputJsons: runtimeConfig.targets.map((target) => target.outputJsonAbsolutePath),
       artifactsDir: runtimeConfig.artifactsDir,
     },
     "Resolved runtime configuration",
   );
 
-  const result = await runPipeline(runtimeConfig);
+  // The first Ctrl+C stops in-flight requests and ffmpeg calls and keeps the artifacts for --resume; a second
+  // one exits immediately.
+  const cancel = new AbortController();
+  process.once("SIGINT", () => {
+    logger.warn({ artifactsDir: runtimeConfig.artifactsDir }, "Interrupted; cancelling (Ctrl+C again to force quit)");
+    cancel.abort(new Error("Run cancelled by SIGINT."));
+    process.once("SIGINT", () => process.exit(130));
+  });
+
+  // Progress goes to stderr as one status line, so stdout stays clean JSON logs when redirected.
+  const display = process.stderr.isTTY ? createProgressDisplay(process.stderr) : undefined;
+  const pipelineOptions = { signal: cancel.signal, onProgress: display?.listener };
+
+  const segmentsJsonPath: string | undefined = raw.segmentsJson;
+  let result;
+  try {
+    result = segmentsJsonPath
+      ? await rerenderFromSegmentsJson(
+          runtimeConfig,
+          path.resolve(process.cwd(), segmentsJsonPath),
+          pipelineOptions,
+        )
+      : await runPipeline(runtimeConfig, pipelineOptions);
+  } catch (error) {
+    if (!cancel.signal.aborted) {
+      throw error;
+    }
+    logger.warn(
+      { artifactsDir: runtimeConfig.artifactsDir },
+      "Pipeline cancelled; rerun with the same options and --resume <artifactsDir> to continue",
+    );
+    process.exitCode = 130;
+    return;
+  } finally {
+    display?.stop();
+  }
 
   logger.info(
     {
-      output: result.outputPath,
-      outputJson: result.outputJsonPath,
+      outputs: result.languages.map((item) => item.outputPath),
+      outputJsons: result.languages.map((item) => item.outputJsonPath),
       segments: result.segments.length,
       artifactsDir: runtimeConfig.artifactsDir,
     },
@@ -77,6 +204,12 @@ async function main(): Promise<void> {
 
 main().catch((error: unknown) => {
   const message = error instanceof Error ? error.message : String(error);
-  logger.error({ err: message }, "Pipeline failed");
+  // Retried requests fail with a RetryError, possibly wrapped once by the caller that gave up.
+  const cause = error instanceof Error ? error.cause : undefined;
+  const retryError = error instanceof RetryError ? error : cause instanceof RetryError ? cause : undefined;
+  logger.error(
+    { err: message, kind: retryError?.kind, status: retryError?.status, attempts: retryError?.attempts },
+    "Pipeline failed",
+  );
   process.exitCode = 1;
 });
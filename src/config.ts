@@ -1,7 +1,10 @@
 import path from "node:path";
 import fs from "node:fs";
 import { z } from "zod";
-import type { CliOptions, ModelTier, RuntimeConfig } from "./types.js";
+import type { CliOptions, LanguageTarget, ModelTier, RuntimeConfig } from "./types.js";
+
+// Passed as --source-language to detect the spoken language from the audio.
+export const AUTO_SOURCE_LANGUAGE = "auto";
 
 const videoExtensions = new Set([".mp4", ".mov", ".mkv", ".avi", ".webm"]);
 
@@ -17,10 +20,96 @@ const cliOptionsSchema = z.object({
   transcribeModel: z.string().optional(),
   ttsModel: z.string().optional(),
   keepArtifacts: z.boolean(),
+  resume: z.string().min(1).optional(),
+  provider: z.enum(["gemini", "fake"]).optional(),
+  cassetteDir: z.string().min(1).optional(),
+  cassetteMode: z.enum(["record", "replay"]).optional(),
+  chunkSec: z.coerce.number().positive().optional(),
+  chunkOverlapSec: z.coerce.number().nonnegative().optional(),
+  chunkConcurrency: z.coerce.number().int().positive().optional(),
+  fitToleranceSec: z.coerce.number().nonnegative().optional(),
+  fitMaxIterations: z.coerce.number().int().nonnegative().optional(),
+  stretchMinRatio: z.coerce.number().positive().max(1).optional(),
+  stretchMaxRatio: z.coerce.number().min(1).optional(),
+  fadeInMs: z.coerce.number().nonnegative().optional(),
+  fadeOutMs: z.coerce.number().nonnegative().optional(),
+  crossfadeMs: z.coerce.number().nonnegative().optional(),
+  trimSilenceDb: z.coerce.number().max(0).optional(),
+  noTrimSilence: z.boolean().optional(),
+  keepBackground: z.boolean().optional(),
+  backgroundDb: z.coerce.number().max(0).optional(),
+  duckDb: z.coerce.number().max(0).optional(),
+  duckAttackMs: z.coerce.number().nonnegative().optional(),
+  duckReleaseMs: z.coerce.number().nonnegative().optional(),
+  dubDb: z.coerce.number().optional(),
+  vocalReduction: z.boolean().optional(),
+  dubMode: z.enum(["replace", "voice-over"]).optional(),
+  leadInSec: z.coerce.number().nonnegative().optional(),
+  bedDb: z.coerce.number().max(0).optional(),
+  loudnessTarget: z.union([z.enum(["youtube", "broadcast", "off"]), z.coerce.number().max(0)]).optional(),
+  truePeakDbtp: z.coerce.number().max(0).optional(),
+  resampleQuality: z.enum(["fast", "standard", "high"]).optional(),
+  twoPass: z.boolean().optional(),
+  glossary: z.string().min(1).optional(),
+  voiceCast: z.string().min(1).optional(),
+  voicePool: z.string().min(1).optional(),
+  ttsStyle: z.string().trim().min(1).optional(),
+  ttsConcurrency: z.coerce.number().int().positive().optional(),
+  ttsRequestsPerMinute: z.coerce.number().positive().optional(),
+  ttsCharsPerMinute: z.coerce.number().positive().optional(),
+  retryAttempts: z.coerce.number().int().positive().optional(),
+  retryMaxDelaySec: z.coerce.number().positive().optional(),
+  stageTimeoutSec: z.coerce.number().positive().optional(),
+  commandTimeoutSec: z.coerce.number().positive().optional(),
+  cacheDir: z.string().min(1).optional(),
+  noCache: z.boolean().optional(),
+  saveClips: z.boolean().optional(),
 });
 
+// Relative to the working directory; .cache/ is already ignored by git.
+export const DEFAULT_CACHE_DIR = path.join(".cache", "voxshift");
+
 export function parseCliOptions(raw: unknown): CliOptions {
-  return cliOptionsSchema.parse(raw);
+  const options = cliOptionsSchema.parse(raw);
+  if (parseTargetLanguages(options.targetLanguage).length === 0) {
+    throw new Error("--target-language must list at least one language code.");
+  }
+  if (options.chunkSec !== undefined && (options.chunkOverlapSec ?? 0) * 2 >= options.chunkSec) {
+    throw new Error("--chunk-overlap-sec must be less than half of --chunk-sec.");
+  }
+  return options;
+}
+
+// Comma-separated voice names from --voice-pool.
+export function parseVoicePool(value: string): string[] {
+  const voices = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  return [...new Set(voices)];
+}
+
+export function parseTargetLanguages(value: string): string[] {
+  const languages = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  return [...new Set(languages)];
+}
+
+function applyLanguageToPath(filePath: string, language: string, multiLanguage: boolean): string {
+  if (filePath.includes("{lang}")) {
+    return filePath.replaceAll("{lang}", language);
+  }
+
+  if (!multiLanguage) {
+    return filePath;
+  }
+
+  const parsed = path.parse(filePath);
+  return path.join(parsed.dir, `${parsed.name}_${language}${parsed.ext}`);
 }
 
 function defaultOutputPath(inputPath: string, targetLanguage: string): string {
@@ -47,28 +136,55 @@ export function resolveRuntimeConfig(options: CliOptions, workDir: string): Runt
     throw new Error(`Input file not found: ${inputAbsolutePath}`);
   }
 
+  // The offline fake provider and cassette replay never call Gemini, so they run without a key.
   const googleApiKey = process.env.GOOGLE_API_KEY;
-  if (!googleApiKey) {
+  const replaying = Boolean(options.cassetteDir) && (options.cassetteMode ?? "replay") === "replay";
+  if (!googleApiKey && options.provider !== "fake" && !replaying) {
     throw new Error("GOOGLE_API_KEY is not set. Add it to your environment or .env file.");
   }
 
-  const artifactsDir = path.resolve(workDir, "artifacts", new Date().toISOString().replaceAll(":", "-"));
-  const outputAbsolutePath = path.resolve(
-    workDir,
-    options.output ?? defaultOutputPath(inputAbsolutePath, options.targetLanguage),
-  );
-  const outputJsonAbsolutePath = path.resolve(
-    workDir,
-    options.outputJson ?? defaultOutputJsonPath(inputAbsolutePath, options.targetLanguage),
-  );
+  const glossaryAbsolutePath = options.glossary ? path.resolve(workDir, options.glossary) : undefined;
+  if (glossaryAbsolutePath && !fs.existsSync(glossaryAbsolutePath)) {
+    throw new Error(`Glossary file not found: ${glossaryAbsolutePath}`);
+  }
+
+  const voiceCastAbsolutePath = options.voiceCast ? path.resolve(workDir, options.voiceCast) : undefined;
+  if (voiceCastAbsolutePath && !fs.existsSync(voiceCastAbsolutePath)) {
+    throw new Error(`Voice cast file not found: ${voiceCastAbsolutePath}`);
+  }
+
+  const artifactsDir = options.resume
+    ? path.resolve(workDir, options.resume)
+    : path.resolve(workDir, "artifacts", new Date().toISOString().replaceAll(":", "-"));
+  const languages = parseTargetLanguages(options.targetLanguage);
+  const multiLanguage = languages.length > 1;
+
+  // Explicit output paths act as templates: "{lang}" is substituted, and with several target languages
+  // the language code is appended to the file name otherwise.
+  const targets: LanguageTarget[] = languages.map((language) => {
+    const output = options.output && applyLanguageToPath(options.output, language, multiLanguage);
+    const outputJson = options.outputJson && applyLanguageToPath(options.outputJson, language, multiLanguage);
+
+    return {
+      language,
+      outputAbsolutePath: path.resolve(workDir, output ?? defaultOutputPath(inputAbsolutePath, language)),
+      outputJsonAbsolutePath: path.resolve(workDir, outputJson ?? defaultOutputJsonPath(inputAbsolutePath, language)),
+    };
+  });
 
   return {
     ...options,
+    // A glossary is applied by the text-only translation pass, so it implies two-pass mode.
+    twoPass: Boolean(options.twoPass || glossaryAbsolutePath),
     workDir,
     artifactsDir,
     inputAbsolutePath,
-    outputAbsolutePath,
-    outputJsonAbsolutePath,
+    outputAbsolutePath: targets[0].outputAbsolutePath,
+    outputJsonAbsolutePath: targets[0].outputJsonAbsolutePath,
+    targets,
+    glossaryAbsolutePath,
+    voiceCastAbsolutePath,
+    cacheDirAbsolutePath: options.noCache ? undefined : path.resolve(workDir, options.cacheDir ?? DEFAULT_CACHE_DIR),
     googleApiKey,
   };
 }
@@ -0,0 +1,172 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { GenerateContentResponse, type GoogleGenAI } from "@google/genai";
+import { logger } from "../logger.js";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  dir: string;
+}
+
+type CassetteKind = "generateContent" | "files.upload";
+
+interface CassetteEntry {
+  kind: CassetteKind;
+  key: string;
+  recordedAt: string;
+  request: unknown;
+  response: unknown;
+}
+
+// Per-call transport options never change what the model returns, so they stay out of the request key.
+const IGNORED_KEYS = new Set(["abortSignal", "httpOptions"]);
+
+// The body of a WAV file's data chunk, or the whole buffer when it is not a WAV file.
+function wavSampleBytes(bytes: Buffer): Buffer {
+  if (bytes.length < 12 || bytes.toString("ascii", 0, 4) !== "RIFF" || bytes.toString("ascii", 8, 12) !== "WAVE") {
+    return bytes;
+  }
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = bytes.readUInt32LE(offset + 4);
+    if (bytes.toString("ascii", offset, offset + 4) === "data") {
+      return bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + size));
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return bytes;
+}
+
+// Inline audio is keyed by its samples rather than the file bytes: ffmpeg writes its own version into the WAV
+// header, so the same extract would otherwise miss on a machine with another ffmpeg build.
+function describeInlineAudio(inline: { data: string; mimeType: string }): unknown {
+  const samples = wavSampleBytes(Buffer.from(inline.data, "base64"));
+  return {
+    mimeType: inline.mimeType,
+    samples: { sha256: createHash("sha256").update(samples).digest("hex"), size: samples.length },
+  };
+}
+
+function isInlineAudio(value: object): value is { data: string; mimeType: string } {
+  const { data, mimeType } = value as { data?: unknown; mimeType?: unknown };
+  return typeof data === "string" && typeof mimeType === "string" && mimeType.startsWith("audio/");
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => canonicalize(item));
+  }
+
+  if (value && typeof value === "object" && isInlineAudio(value)) {
+    return describeInlineAudio(value);
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([key, item]) => !IGNORED_KEYS.has(key) && item !== undefined && typeof item !== "function")
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => [key, canonicalize(item)] as const);
+    return Object.fromEntries(entries);
+  }
+
+  return value;
+}
+
+function hashRequest(kind: CassetteKind, request: unknown): string {
+  return createHash("sha256")
+    .update(kind)
+    .update("\n")
+    .update(JSON.stringify(canonicalize(request)))
+    .digest("hex");
+}
+
+function entryPath(options: CassetteOptions, kind: CassetteKind, key: string): string {
+  return path.join(options.dir, `${kind.replace(".", "_")}_${key}.json`);
+}
+
+async function readEntry(options: CassetteOptions, kind: CassetteKind, key: string): Promise<CassetteEntry> {
+  const filePath = entryPath(options, kind, key);
+
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf8");
+  } catch {
+    throw new Error(
+      `Cassette miss: no recorded ${kind} response for request ${key.slice(0, 12)} in ${options.dir}. ` +
+        "Re-record with --cassette-mode record.",
+    );
+  }
+
+  return JSON.parse(content) as CassetteEntry;
+}
+
+async function writeEntry(options: CassetteOptions, entry: CassetteEntry): Promise<void> {
+  await fs.mkdir(options.dir, { recursive: true });
+  await fs.writeFile(entryPath(options, entry.kind, entry.key), JSON.stringify(entry, null, 2), "utf8");
+}
+
+async function describeUploadRequest(params: Parameters<GoogleGenAI["files"]["upload"]>[0]): Promise<unknown> {
+  // Uploads are keyed by file content, not by path, because artifact directories are timestamped per run.
+  const data =
+    typeof params.file === "string"
+      ? await fs.readFile(params.file)
+      : Buffer.from(await params.file.arrayBuffer());
+
+  return {
+    file: {
+      sha256: createHash("sha256").update(data).digest("hex"),
+      size: data.length,
+      data: data.toString("base64"),
+    },
+    config: params.config,
+  };
+}
+
+export function attachCassette(client: GoogleGenAI, options: CassetteOptions): GoogleGenAI {
+  const generateContent = client.models.generateContent.bind(client.models);
+  const upload = client.files.upload.bind(client.files);
+
+  client.models.generateContent = async (params) => {
+    const key = hashRequest("generateContent", params);
+
+    if (options.mode === "replay") {
+      const entry = await readEntry(options, "generateContent", key);
+      return Object.assign(new GenerateContentResponse(), entry.response);
+    }
+
+    const response = await generateContent(params);
+    await writeEntry(options, {
+      kind: "generateContent",
+      key,
+      recordedAt: new Date().toISOString(),
+      request: canonicalize(params),
+      response: JSON.parse(JSON.stringify(response)) as unknown,
+    });
+    return response;
+  };
+
+  client.files.upload = async (params) => {
+    const request = await describeUploadRequest(params);
+    const key = hashRequest("files.upload", request);
+
+    if (options.mode === "replay") {
+      const entry = await readEntry(options, "files.upload", key);
+      return entry.response as Awaited<ReturnType<typeof upload>>;
+    }
+
+    const response = await upload(params);
+    await writeEntry(options, {
+      kind: "files.upload",
+      key,
+      recordedAt: new Date().toISOString(),
+      request: canonicalize(request),
+      response: JSON.parse(JSON.stringify(response)) as unknown,
+    });
+    return response;
+  };
+
+  logger.info({ mode: options.mode, dir: options.dir }, "Gemini cassette attached");
+  return client;
+}
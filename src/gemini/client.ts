@@ -1,6 +1,8 @@
 import { GoogleGenAI } from "@google/genai";
+import { attachCassette, type CassetteOptions } from "./cassette.js";
 
-export function createGeminiClient(apiKey: string): GoogleGenAI {
+export function createGeminiClient(apiKey: string | undefined, options: { cassette?: CassetteOptions } = {}): GoogleGenAI {
   // Force Gemini Developer API mode to avoid accidental Vertex mode via env flags.
-  return new GoogleGenAI({ apiKey, vertexai: false });
+  const client = new GoogleGenAI({ apiKey, vertexai: false });
+  return options.cassette ? attachCassette(client, options.cassette) : client;
 }
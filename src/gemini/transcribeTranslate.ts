@@ -1,8 +1,38 @@
+import { openAsBlob } from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { z } from "zod";
 import { Type, type GoogleGenAI, type Schema } from "@google/genai";
-import type { Segment } from "../types.js";
+import { isGlossaryEmpty, type GlossaryRules } from "../translation/glossary.js";
+import { DELIVERY_PACES, DELIVERY_VOLUMES } from "../tts/delivery.js";
+import { SPEAKER_AGE_RANGES, SPEAKER_ENERGIES, SPEAKER_GENDERS } from "../tts/voices.js";
+import type { Segment, SpeakerProfile, Transcript } from "../types.js";
+import { withRetry, type RetryOptions } from "../util/retry.js";
+
+// Attribute values outside the vocabulary fall back instead of failing the whole transcription.
+function enumWithFallback<T extends readonly [string, ...string[]]>(values: T, fallback: T[number]) {
+  return z.string().trim().toLowerCase().pipe(z.enum(values)).catch(fallback);
+}
+
+const speakerProfilesSchema = z
+  .array(
+    z.object({
+      speaker: z.string().min(1),
+      gender: enumWithFallback(SPEAKER_GENDERS, "unknown"),
+      ageRange: enumWithFallback(SPEAKER_AGE_RANGES, "unknown"),
+      energy: enumWithFallback(SPEAKER_ENERGIES, "medium"),
+      style: z.string().optional(),
+    }),
+  )
+  .default([]);
+
+const deliverySchema = z
+  .object({
+    emotion: z.string().trim().toLowerCase().optional(),
+    pace: enumWithFallback(DELIVERY_PACES, "normal"),
+    volume: enumWithFallback(DELIVERY_VOLUMES, "normal"),
+  })
+  .optional();
 
 const modelResponseSchema = z.object({
   segments: z
@@ -13,47 +43,287 @@ const modelResponseSchema = z.object({
         endSec: z.number().nonnegative(),
         sourceText: z.string().min(1),
         translatedText: z.string().min(1),
+        delivery: deliverySchema,
+      }),
+    )
+    .min(1),
+  speakers: speakerProfilesSchema,
+});
+
+const transcriptionResponseSchema = z.object({
+  segments: z
+    .array(
+      z.object({
+        speaker: z.string().min(1),
+        startSec: z.number().nonnegative(),
+        endSec: z.number().nonnegative(),
+        sourceText: z.string().min(1),
+        delivery: deliverySchema,
       }),
     )
     .min(1),
+  speakers: speakerProfilesSchema,
+});
+
+const translationResponseSchema = z.object({
+  translations: z.array(
+    z.object({
+      index: z.number().int().nonnegative(),
+      translatedText: z.string().min(1),
+    }),
+  ),
+});
+
+const languageDetectionResponseSchema = z.object({
+  language: z.string().trim().min(1),
+  confidence: z.number().min(0).max(1),
+});
+
+const shortenResponseSchema = z.object({
+  translatedText: z.string().trim().min(1),
 });
 
+// Bump when a transcription prompt or response schema changes; part of the transcription cache key.
+export const TRANSCRIPTION_PROMPT_VERSION = "3";
+
 const MAX_INLINE_AUDIO_BYTES = 20 * 1024 * 1024;
+const TRANSLATION_BATCH_SIZE = 80;
+
+const GEMINI_SPEAKERS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    required: ["speaker", "gender", "ageRange", "energy"],
+    properties: {
+      speaker: { type: Type.STRING },
+      gender: { type: Type.STRING, format: "enum", enum: [...SPEAKER_GENDERS] },
+      ageRange: { type: Type.STRING, format: "enum", enum: [...SPEAKER_AGE_RANGES] },
+      energy: { type: Type.STRING, format: "enum", enum: [...SPEAKER_ENERGIES] },
+      style: { type: Type.STRING },
+    },
+  },
+};
+
+const GEMINI_DELIVERY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  required: ["emotion", "pace", "volume"],
+  properties: {
+    emotion: { type: Type.STRING },
+    pace: { type: Type.STRING, format: "enum", enum: [...DELIVERY_PACES] },
+    volume: { type: Type.STRING, format: "enum", enum: [...DELIVERY_VOLUMES] },
+  },
+};
 
 const GEMINI_RESPONSE_SCHEMA: Schema = {
   type: Type.OBJECT,
-  required: ["segments"],
+  required: ["segments", "speakers"],
   properties: {
     segments: {
       type: Type.ARRAY,
       items: {
         type: Type.OBJECT,
-        required: ["speaker", "startSec", "endSec", "sourceText", "translatedText"],
+        required: ["speaker", "startSec", "endSec", "sourceText", "translatedText", "delivery"],
         properties: {
           speaker: { type: Type.STRING },
           startSec: { type: Type.NUMBER },
           endSec: { type: Type.NUMBER },
           sourceText: { type: Type.STRING },
           translatedText: { type: Type.STRING },
+          delivery: GEMINI_DELIVERY_SCHEMA,
+        },
+      },
+    },
+    speakers: GEMINI_SPEAKERS_SCHEMA,
+  },
+};
+
+const GEMINI_TRANSCRIPTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  required: ["segments", "speakers"],
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        required: ["speaker", "startSec", "endSec", "sourceText", "delivery"],
+        properties: {
+          speaker: { type: Type.STRING },
+          startSec: { type: Type.NUMBER },
+          endSec: { type: Type.NUMBER },
+          sourceText: { type: Type.STRING },
+          delivery: GEMINI_DELIVERY_SCHEMA,
+        },
+      },
+    },
+    speakers: GEMINI_SPEAKERS_SCHEMA,
+  },
+};
+
+const GEMINI_LANGUAGE_DETECTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  required: ["language", "confidence"],
+  properties: {
+    language: { type: Type.STRING },
+    confidence: { type: Type.NUMBER },
+  },
+};
+
+const GEMINI_SHORTEN_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  required: ["translatedText"],
+  properties: {
+    translatedText: { type: Type.STRING },
+  },
+};
+
+const GEMINI_TRANSLATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  required: ["translations"],
+  properties: {
+    translations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        required: ["index", "translatedText"],
+        properties: {
+          index: { type: Type.INTEGER },
+          translatedText: { type: Type.STRING },
         },
       },
     },
   },
 };
 
+const DELIVERY_SHAPE_EXAMPLE = '"delivery":{"emotion":"excited","pace":"fast","volume":"loud"}';
+
+const SPEAKER_SHAPE_EXAMPLE =
+  '{"speaker":"SPEAKER_01","gender":"female","ageRange":"adult","energy":"medium","style":"calm narrator"}';
+
+function buildSpeakerProfileRule(ruleNumber: number): string {
+  return (
+    `${ruleNumber}) List every speaker label once in speakers with the perceived voice: ` +
+    `gender (${SPEAKER_GENDERS.join("|")}), ageRange (${SPEAKER_AGE_RANGES.join("|")}), ` +
+    `energy (${SPEAKER_ENERGIES.join("|")}) and a short speaking style.`
+  );
+}
+
+function buildDeliveryRule(ruleNumber: number): string {
+  return (
+    `${ruleNumber}) Describe how each segment is spoken in delivery: emotion in one or two words ` +
+    `("neutral" when unmarked), pace (${DELIVERY_PACES.join("|")}) and volume (${DELIVERY_VOLUMES.join("|")}).`
+  );
+}
+
 function buildPrompt(sourceLanguage: string, targetLanguage: string): string {
   return [
     "You are a dubbing transcription and translation engine.",
     `Transcribe spoken audio from ${sourceLanguage} and translate into ${targetLanguage}.`,
     "Return JSON only.",
     "Output shape:",
-    '{"segments":[{"speaker":"SPEAKER_01","startSec":0.0,"endSec":2.3,"sourceText":"...","translatedText":"..."}]}',
+    '{"segments":[{"speaker":"SPEAKER_01","startSec":0.0,"endSec":2.3,"sourceText":"...","translatedText":"...",' +
+      `${DELIVERY_SHAPE_EXAMPLE}}],"speakers":[${SPEAKER_SHAPE_EXAMPLE}]}`,
     "Rules:",
     "1) Keep startSec/endSec as numeric seconds.",
     "2) Keep chronological order.",
     "3) Keep translation concise to help speech timing.",
     "4) Keep punctuation natural for speech synthesis.",
     "5) Use speaker labels consistently.",
+    buildSpeakerProfileRule(6),
+    buildDeliveryRule(7),
+  ].join("\n");
+}
+
+function buildTranscriptionPrompt(sourceLanguage: string): string {
+  return [
+    "You are a dubbing transcription engine.",
+    `Transcribe spoken audio in ${sourceLanguage} verbatim. Do not translate.`,
+    "Return JSON only.",
+    "Output shape:",
+    '{"segments":[{"speaker":"SPEAKER_01","startSec":0.0,"endSec":2.3,"sourceText":"...",' +
+      `${DELIVERY_SHAPE_EXAMPLE}}],"speakers":[${SPEAKER_SHAPE_EXAMPLE}]}`,
+    "Rules:",
+    "1) Keep startSec/endSec as numeric seconds.",
+    "2) Keep chronological order.",
+    "3) Split at sentence or clause boundaries so each segment can be dubbed on its own.",
+    "4) Use speaker labels consistently.",
+    buildSpeakerProfileRule(5),
+    buildDeliveryRule(6),
+  ].join("\n");
+}
+
+function buildLanguageDetectionPrompt(): string {
+  return [
+    "Identify the main spoken language in this audio.",
+    "Return JSON only.",
+    "Output shape:",
+    '{"language":"en","confidence":0.97}',
+    "Rules:",
+    "1) language is a lower-case ISO 639-1 code; use ISO 639-3 only when no 639-1 code exists.",
+    '2) Use "und" when there is no intelligible speech.',
+    "3) confidence is a number between 0 and 1.",
+  ].join("\n");
+}
+
+function buildGlossaryLines(glossary: GlossaryRules | undefined): string[] {
+  if (!glossary || isGlossaryEmpty(glossary)) {
+    return [];
+  }
+
+  const lines = ["Glossary (mandatory):"];
+  for (const [term, translation] of Object.entries(glossary.terms)) {
+    lines.push(`- Always translate "${term}" as "${translation}".`);
+  }
+  for (const term of glossary.doNotTranslate) {
+    lines.push(`- Keep "${term}" exactly as written; never translate or transliterate it.`);
+  }
+  return lines;
+}
+
+function buildTranslationPrompt(
+  sourceLanguage: string,
+  targetLanguage: string,
+  batch: Array<{ index: number; speaker: string; text: string }>,
+  glossary?: GlossaryRules,
+): string {
+  return [
+    "You are a dubbing translation engine.",
+    `Translate each transcript segment from ${sourceLanguage} into ${targetLanguage}.`,
+    "Return JSON only.",
+    "Output shape:",
+    '{"translations":[{"index":0,"translatedText":"..."}]}',
+    "Rules:",
+    "1) Return exactly one translation for every input index.",
+    "2) Keep translation concise to help speech timing.",
+    "3) Keep punctuation natural for speech synthesis.",
+    "4) Use neighbouring segments only as context; never merge or split segments.",
+    ...buildGlossaryLines(glossary),
+    "Segments:",
+    JSON.stringify(batch),
+  ].join("\n");
+}
+
+function buildShortenPrompt(params: {
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceText: string;
+  translatedText: string;
+  maxChars: number;
+  glossary?: GlossaryRules;
+}): string {
+  return [
+    "You are a dubbing translation editor.",
+    `The ${params.targetLanguage} translation below is too long to be spoken in its time slot.`,
+    `Rewrite it in ${params.targetLanguage} with at most ${params.maxChars} characters.`,
+    "Return JSON only.",
+    "Output shape:",
+    '{"translatedText":"..."}',
+    "Rules:",
+    "1) Keep the meaning of the source; drop filler and redundancy before content.",
+    "2) Prefer shorter words and simpler phrasing; do not abbreviate or use symbols.",
+    "3) Keep punctuation natural for speech synthesis.",
+    ...buildGlossaryLines(params.glossary),
+    `Source (${params.sourceLanguage}): ${params.sourceText}`,
+    `Current translation (${params.translatedText.length} characters): ${params.translatedText}`,
   ].join("\n");
 }
 
@@ -80,7 +350,25 @@ function extractLikelyJson(raw: string): string {
   return raw;
 }
 
-function normalizeSegments(segments: Segment[]): Segment[] {
+function parseModelJson(raw: string | undefined, payloadName: string): unknown {
+  const text = (raw ?? "").trim();
+  if (!text) {
+    throw new Error(`Gemini returned empty ${payloadName} response.`);
+  }
+
+  const jsonText = extractLikelyJson(unwrapJsonText(text));
+  try {
+    return JSON.parse(jsonText) as unknown;
+  } catch (error) {
+    throw new Error(
+      `Gemini returned invalid JSON for ${payloadName} payload. ` +
+        `Try rerunning; if persistent, switch to --model-tier pro. ` +
+        `Parse error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function normalizeSegments(segments: Segment[], requireTranslation = true): Segment[] {
   const normalized = segments
     .filter((segment) => segment.endSec > segment.startSec)
     .map((segment) => ({
@@ -89,7 +377,7 @@ function normalizeSegments(segments: Segment[]): Segment[] {
       sourceText: segment.sourceText.trim(),
       translatedText: segment.translatedText.trim(),
     }))
-    .filter((segment) => segment.sourceText.length > 0 && segment.translatedText.length > 0)
+    .filter((segment) => segment.sourceText.length > 0 && (!requireTranslation || segment.translatedText.length > 0))
     .sort((a, b) => a.startSec - b.startSec);
 
   for (let index = 1; index < normalized.length; index += 1) {
@@ -104,25 +392,22 @@ function normalizeSegments(segments: Segment[]): Segment[] {
   return normalized;
 }
 
-async function withRetry<T>(operation: () => Promise<T>, maxAttempts = 3): Promise<T> {
-  let lastError: unknown;
+// Keeps one profile per speaker label that actually occurs in the segments.
+function normalizeSpeakers(speakers: SpeakerProfile[], segments: Segment[]): SpeakerProfile[] {
+  const labels = new Set(segments.map((segment) => segment.speaker));
+  const seen = new Set<string>();
+  const normalized: SpeakerProfile[] = [];
 
-  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error;
-      if (attempt === maxAttempts) {
-        break;
-      }
-      const waitMs = 500 * 2 ** (attempt - 1);
-      await new Promise((resolve) => {
-        setTimeout(resolve, waitMs);
-      });
+  for (const profile of speakers) {
+    const speaker = profile.speaker.trim();
+    if (!labels.has(speaker) || seen.has(speaker)) {
+      continue;
     }
+    seen.add(speaker);
+    normalized.push({ ...profile, speaker, style: profile.style?.trim() || undefined });
   }
 
-  throw lastError;
+  return normalized;
 }
 
 function looksLikeApiKeyNotSupportedError(error: unknown): boolean {
@@ -155,9 +440,34 @@ function detectMimeType(audioPath: string): string {
   return "audio/wav";
 }
 
+// The SDK uploads a Blob by requesting one slice per chunk, in order, and sends each slice before asking for
+// the next. A slice starting at byte N therefore means the N bytes before it are uploaded.
+async function openUploadBlob(
+  filePath: string,
+  mimeType: string,
+  onProgress: (bytesUploaded: number, totalBytes: number) => void,
+): Promise<Blob> {
+  const blob = await openAsBlob(filePath, { type: mimeType });
+  return new Proxy(blob, {
+    get(target, property) {
+      if (property === "slice") {
+        return (start?: number, end?: number, contentType?: string) => {
+          onProgress(start ?? 0, target.size);
+          return target.slice(start, end, contentType);
+        };
+      }
+      const value: unknown = Reflect.get(target, property, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
 async function buildAudioPart(params: {
   client: GoogleGenAI;
   audioPath: string;
+  retry?: RetryOptions;
+  signal?: AbortSignal;
+  onUploadProgress?: (bytesUploaded: number, totalBytes: number) => void;
 }): Promise<{ inlineData?: { data: string; mimeType: string }; fileData?: { fileUri: string; mimeType: string } }> {
   const stat = await fs.stat(params.audioPath);
   const mimeType = detectMimeType(params.audioPath);
@@ -174,17 +484,22 @@ async function buildAudioPart(params: {
   }
 
   try {
+    const onUploadProgress = params.onUploadProgress;
     const upload = await withRetry(async () => {
       return params.client.files.upload({
-        file: params.audioPath,
+        file: onUploadProgress
+          ? await openUploadBlob(params.audioPath, mimeType, onUploadProgress)
+          : params.audioPath,
         config: {
+          abortSignal: params.signal,
           mimeType,
         },
       });
-    });
+    }, { ...params.retry, label: "gemini upload", signal: params.signal });
     if (!upload.uri) {
       throw new Error("File upload succeeded but did not return file URI.");
     }
+    onUploadProgress?.(stat.size, stat.size);
 
     return {
       fileData: {
@@ -197,6 +512,7 @@ async function buildAudioPart(params: {
       throw new Error(
         "This key cannot use Gemini FileService upload. Use a Google AI Studio Gemini API key, " +
           "or configure OAuth2/ADC for Vertex AI auth, or keep inputs <= 20MB for inline mode.",
+        { cause: error },
       );
     }
     throw error;
@@ -209,10 +525,16 @@ export async function transcribeAndTranslateAudio(params: {
   sourceLanguage: string;
   targetLanguage: string;
   model: string;
-}): Promise<Segment[]> {
+  retry?: RetryOptions;
+  signal?: AbortSignal;
+  onUploadProgress?: (bytesUploaded: number, totalBytes: number) => void;
+}): Promise<Transcript> {
   const audioPart = await buildAudioPart({
     client: params.client,
     audioPath: params.audioPath,
+    retry: params.retry,
+    signal: params.signal,
+    onUploadProgress: params.onUploadProgress,
   });
   const prompt = buildPrompt(params.sourceLanguage, params.targetLanguage);
 
@@ -226,28 +548,14 @@ export async function transcribeAndTranslateAudio(params: {
         },
       ],
       config: {
+        abortSignal: params.signal,
         responseMimeType: "application/json",
         responseSchema: GEMINI_RESPONSE_SCHEMA,
       },
     });
-  });
+  }, { ...params.retry, label: "gemini transcribe", signal: params.signal });
 
-  const text = (response.text ?? "").trim();
-  if (!text) {
-    throw new Error("Gemini returned empty transcription response.");
-  }
-
-  const jsonText = extractLikelyJson(unwrapJsonText(text));
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(jsonText) as unknown;
-  } catch (error) {
-    throw new Error(
-      `Gemini returned invalid JSON for transcription payload. ` +
-        `Try rerunning; if persistent, switch to --model-tier pro. ` +
-        `Parse error: ${error instanceof Error ? error.message : String(error)}`,
-    );
-  }
+  const parsed = parseModelJson(response.text, "transcription");
   const validated = modelResponseSchema.parse(parsed);
 
   const segments = normalizeSegments(validated.segments);
@@ -255,5 +563,161 @@ export async function transcribeAndTranslateAudio(params: {
     throw new Error("No valid segments were produced by Gemini.");
   }
 
-  return segments;
+  return { segments, speakers: normalizeSpeakers(validated.speakers, segments) };
+}
+
+export async function detectSpokenLanguage(params: {
+  client: GoogleGenAI;
+  audioPath: string;
+  model: string;
+  retry?: RetryOptions;
+  signal?: AbortSignal;
+  onUploadProgress?: (bytesUploaded: number, totalBytes: number) => void;
+}): Promise<{ language: string; confidence: number }> {
+  const audioPart = await buildAudioPart({
+    client: params.client,
+    audioPath: params.audioPath,
+    retry: params.retry,
+    signal: params.signal,
+    onUploadProgress: params.onUploadProgress,
+  });
+
+  const response = await withRetry(async () => {
+    return params.client.models.generateContent({
+      model: params.model,
+      contents: [audioPart, { text: buildLanguageDetectionPrompt() }],
+      config: {
+        abortSignal: params.signal,
+        responseMimeType: "application/json",
+        responseSchema: GEMINI_LANGUAGE_DETECTION_SCHEMA,
+      },
+    });
+  }, { ...params.retry, label: "gemini detect language", signal: params.signal });
+
+  const validated = languageDetectionResponseSchema.parse(parseModelJson(response.text, "language detection"));
+  return { language: validated.language.toLowerCase(), confidence: validated.confidence };
+}
+
+// First pass of two-pass mode: source-language segments only, with empty translatedText.
+export async function transcribeAudio(params: {
+  client: GoogleGenAI;
+  audioPath: string;
+  sourceLanguage: string;
+  model: string;
+  retry?: RetryOptions;
+  signal?: AbortSignal;
+  onUploadProgress?: (bytesUploaded: number, totalBytes: number) => void;
+}): Promise<Transcript> {
+  const audioPart = await buildAudioPart({
+    client: params.client,
+    audioPath: params.audioPath,
+    retry: params.retry,
+    signal: params.signal,
+    onUploadProgress: params.onUploadProgress,
+  });
+  const prompt = buildTranscriptionPrompt(params.sourceLanguage);
+
+  const response = await withRetry(async () => {
+    return params.client.models.generateContent({
+      model: params.model,
+      contents: [
+        audioPart,
+        {
+          text: prompt,
+        },
+      ],
+      config: {
+        abortSignal: params.signal,
+        responseMimeType: "application/json",
+        responseSchema: GEMINI_TRANSCRIPTION_SCHEMA,
+      },
+    });
+  }, { ...params.retry, label: "gemini transcribe", signal: params.signal });
+
+  const validated = transcriptionResponseSchema.parse(parseModelJson(response.text, "transcription"));
+  const segments = normalizeSegments(
+    validated.segments.map((segment) => ({ ...segment, translatedText: "" })),
+    false,
+  );
+  if (segments.length === 0) {
+    throw new Error("No valid segments were produced by Gemini.");
+  }
+
+  return { segments, speakers: normalizeSpeakers(validated.speakers, segments) };
+}
+
+export async function translateSegments(params: {
+  client: GoogleGenAI;
+  segments: Segment[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  model: string;
+  glossary?: GlossaryRules;
+  retry?: RetryOptions;
+  signal?: AbortSignal;
+}): Promise<Segment[]> {
+  const translated: Segment[] = [];
+
+  for (let offset = 0; offset < params.segments.length; offset += TRANSLATION_BATCH_SIZE) {
+    const batch = params.segments.slice(offset, offset + TRANSLATION_BATCH_SIZE).map((segment, batchIndex) => ({
+      index: offset + batchIndex,
+      speaker: segment.speaker,
+      text: segment.sourceText,
+    }));
+    const prompt = buildTranslationPrompt(params.sourceLanguage, params.targetLanguage, batch, params.glossary);
+
+    const response = await withRetry(async () => {
+      return params.client.models.generateContent({
+        model: params.model,
+        contents: [{ text: prompt }],
+        config: {
+          abortSignal: params.signal,
+          responseMimeType: "application/json",
+          responseSchema: GEMINI_TRANSLATION_SCHEMA,
+        },
+      });
+    }, { ...params.retry, label: "gemini translate", signal: params.signal });
+
+    const validated = translationResponseSchema.parse(parseModelJson(response.text, "translation"));
+    const byIndex = new Map(validated.translations.map((item) => [item.index, item.translatedText.trim()]));
+
+    for (const item of batch) {
+      const translatedText = byIndex.get(item.index);
+      if (!translatedText) {
+        throw new Error(`Gemini translation into ${params.targetLanguage} is missing segment ${item.index}.`);
+      }
+      translated.push({ ...params.segments[item.index], translatedText });
+    }
+  }
+
+  return translated;
+}
+
+export async function shortenTranslation(params: {
+  client: GoogleGenAI;
+  sourceText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  maxChars: number;
+  model: string;
+  glossary?: GlossaryRules;
+  retry?: RetryOptions;
+  signal?: AbortSignal;
+}): Promise<string> {
+  const prompt = buildShortenPrompt(params);
+
+  const response = await withRetry(async () => {
+    return params.client.models.generateContent({
+      model: params.model,
+      contents: [{ text: prompt }],
+      config: {
+        abortSignal: params.signal,
+        responseMimeType: "application/json",
+        responseSchema: GEMINI_SHORTEN_SCHEMA,
+      },
+    });
+  }, { ...params.retry, label: "gemini shorten", signal: params.signal });
+
+  return shortenResponseSchema.parse(parseModelJson(response.text, "rewrite")).translatedText;
 }
@@ -1,9 +1,123 @@
-export { runPipeline } from "./pipeline.js";
-export { parseCliOptions, resolveRuntimeConfig } from "./config.js";
+export { runPipeline, rerenderFromSegmentsJson } from "./pipeline.js";
+export type { PipelineOptions } from "./pipeline.js";
+export { createPipelineEvents, createProgressReporter } from "./progress.js";
+export type {
+  PipelineEventMap,
+  ProgressEvent,
+  ProgressEventType,
+  ProgressListener,
+  ProgressStage,
+} from "./progress.js";
+export { readSegmentsJson } from "./output/read.js";
+export { loadGlossary, glossaryRulesFor, findGlossaryViolations } from "./translation/glossary.js";
+export type { GlossaryFile, GlossaryRules, GlossaryViolation } from "./translation/glossary.js";
+export { DEFAULT_VOICE_POOL, buildSpeakerVoiceMap, loadVoiceCast, resolveVoicePool } from "./tts/cast.js";
+export type { VoiceCastFile, VoiceCastRule } from "./tts/cast.js";
+export { DELIVERY_PACES, DELIVERY_VOLUMES, buildTtsStyle } from "./tts/delivery.js";
+export type { DeliveryPace, DeliveryVolume, SegmentDelivery } from "./tts/delivery.js";
+export { GEMINI_VOICE_CATALOG, SPEAKER_AGE_RANGES, SPEAKER_ENERGIES, SPEAKER_GENDERS } from "./tts/voices.js";
+export type {
+  CatalogVoice,
+  SpeakerAgeRange,
+  SpeakerAttributes,
+  SpeakerEnergy,
+  SpeakerGender,
+} from "./tts/voices.js";
+export { createGeminiProviders } from "./providers/gemini.js";
+export { createFakeProviders } from "./providers/fake.js";
+export { createChunkedTranscriptionProvider } from "./providers/chunked.js";
+export type { ChunkedTranscriptionOptions } from "./providers/chunked.js";
+export { createCachedTranscriptionProvider, createCachedTtsProvider } from "./providers/cached.js";
+export { collectCacheStats, pruneCache } from "./cache/store.js";
+export type { CacheNamespace, CacheNamespaceStats, CacheStats, PruneOptions } from "./cache/store.js";
+export { createRateLimitedTtsProvider } from "./providers/rateLimited.js";
+export type { RateLimitedTtsOptions } from "./providers/rateLimited.js";
+export {
+  DEFAULT_RETRY_OPTIONS,
+  RetryError,
+  backoffDelayMs,
+  classifyError,
+  retryAfterMs,
+  withRetry,
+} from "./util/retry.js";
+export type { ErrorClassification, ErrorKind, RetryOptions } from "./util/retry.js";
+export {
+  DEFAULT_LOUDNESS_TARGET,
+  LOUDNESS_PRESETS,
+  createLoudnessMeter,
+  createLoudnessNormalizer,
+  createTruePeakLimiter,
+  limitTruePeak,
+  measureIntegratedLoudness,
+  measureLoudness,
+  measureTruePeak,
+  normalizeLoudness,
+  resolveLoudnessTarget,
+} from "./audio/loudness.js";
+export type {
+  LoudnessMeasurement,
+  LoudnessMeter,
+  LoudnessNormalizer,
+  LoudnessPreset,
+  LoudnessReport,
+  LoudnessTarget,
+  LoudnessTargetOption,
+  NormalizationResult,
+  SegmentLoudness,
+  TruePeakLimiter,
+} from "./audio/loudness.js";
+export { DEFAULT_CLIP_FADES, fadeIn, fadeOut, trimSilence } from "./audio/fade.js";
+export type { ClipFadeOptions } from "./audio/fade.js";
+export { DEFAULT_RESAMPLE_QUALITY, RESAMPLE_QUALITIES, createResampler, resample } from "./audio/resample.js";
+export type { ResampleQuality, Resampler } from "./audio/resample.js";
+export {
+  WAV_SAMPLE_FORMATS,
+  createWavWriter,
+  downmixToMono,
+  openWavReader,
+  readWav,
+  writeWav,
+} from "./audio/wav.js";
+export type { WavAudio, WavFormat, WavReader, WavSampleFormat, WavWriter } from "./audio/wav.js";
+export type {
+  PipelineProviders,
+  ProviderName,
+  TranscriptionProvider,
+  TranscriptionRequest,
+  LanguageDetection,
+  LanguageDetectionRequest,
+  TranslationProvider,
+  TranslationRequest,
+  ShortenRequest,
+  TtsProvider,
+  TtsRequest,
+  TtsClip,
+} from "./providers/types.js";
+export { attachCassette } from "./gemini/cassette.js";
+export type { CassetteMode, CassetteOptions } from "./gemini/cassette.js";
+export {
+  AUTO_SOURCE_LANGUAGE,
+  parseCliOptions,
+  parseTargetLanguages,
+  parseVoicePool,
+  resolveRuntimeConfig,
+} from "./config.js";
 export { loadYouTubePolicy } from "./youtube/policy.js";
 export { runYouTubeIntake } from "./youtube/intake.js";
 export { uploadDubbedVideoToYouTube, buildYouTubeUploadMetadata } from "./youtube/upload.js";
-export type { CliOptions, RuntimeConfig, Segment, PipelineResult } from "./types.js";
+export type {
+  CliOptions,
+  RuntimeConfig,
+  LanguageTarget,
+  Segment,
+  SegmentFit,
+  SegmentFitStatus,
+  SpeakerProfile,
+  Transcript,
+  PipelineResult,
+  PipelineLanguageResult,
+} from "./types.js";
+export type { SegmentsFile } from "./output/read.js";
 export type {
   YouTubePolicy,
   YouTubeIntakeResult,
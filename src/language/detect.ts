@@ -0,0 +1,65 @@
+import path from "node:path";
+import { readWavPcm16Mono, writeWavPcm16Mono } from "../audio/wav.js";
+import { logger } from "../logger.js";
+import type { LanguageDetection, TranscriptionProvider } from "../providers/types.js";
+
+const PROBE_DURATION_SEC = 30;
+const FRAME_SEC = 0.02;
+const SPEECH_RMS_THRESHOLD = 500;
+const LOW_CONFIDENCE = 0.6;
+
+// Leading music or silence says nothing about the language, so the probe starts just before the first loud frame.
+function firstVoicedSec(samples: Int16Array, sampleRate: number): number {
+  const frameSize = Math.max(1, Math.round(FRAME_SEC * sampleRate));
+
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+    let sumSquares = 0;
+    for (let index = start; index < start + frameSize; index += 1) {
+      sumSquares += samples[index] * samples[index];
+    }
+    if (Math.sqrt(sumSquares / frameSize) >= SPEECH_RMS_THRESHOLD) {
+      return Math.max(0, start / sampleRate - 0.5);
+    }
+  }
+
+  return 0;
+}
+
+export async function detectSourceLanguage(params: {
+  provider: TranscriptionProvider;
+  audioPath: string;
+  outputDir: string;
+  signal?: AbortSignal;
+}): Promise<LanguageDetection> {
+  if (!params.provider.detectLanguage) {
+    throw new Error(
+      `Transcription provider '${params.provider.id}' cannot detect the source language; pass --source-language.`,
+    );
+  }
+
+  const wav = await readWavPcm16Mono(params.audioPath);
+  const startSec = firstVoicedSec(wav.samples, wav.sampleRate);
+  const start = Math.round(startSec * wav.sampleRate);
+  const end = Math.min(wav.samples.length, start + Math.round(PROBE_DURATION_SEC * wav.sampleRate));
+
+  const probePath = path.join(params.outputDir, "language_probe.wav");
+  await writeWavPcm16Mono(probePath, wav.sampleRate, wav.samples.subarray(start, end));
+
+  const detection = await params.provider.detectLanguage({ audioPath: probePath, signal: params.signal });
+  if (!detection.language || detection.language === "und") {
+    throw new Error("Could not detect the source language from the audio; pass --source-language.");
+  }
+
+  logger.info(
+    { language: detection.language, confidence: detection.confidence, probeStartSec: startSec },
+    "Source language detected",
+  );
+  if (detection.confidence < LOW_CONFIDENCE) {
+    logger.warn(
+      { language: detection.language, confidence: detection.confidence },
+      "Source language detection has low confidence; consider passing --source-language",
+    );
+  }
+
+  return detection;
+}
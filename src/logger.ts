@@ -1,6 +1,29 @@
 import pino from "pino";
 
-export const logger = pino({
-  level: process.env.LOG_LEVEL ?? "info",
-  timestamp: pino.stdTimeFunctions.isoTime,
-});
+type LogWriteWrapper = (write: () => void) => void;
+
+let logWriteWrapper: LogWriteWrapper | undefined;
+
+// Lets a terminal status line step aside while a log line is written (see progressDisplay.ts).
+export function setLogWriteWrapper(wrapper: LogWriteWrapper | undefined): void {
+  logWriteWrapper = wrapper;
+}
+
+export const logger = pino(
+  {
+    level: process.env.LOG_LEVEL ?? "info",
+    timestamp: pino.stdTimeFunctions.isoTime,
+  },
+  {
+    write: (line: string) => {
+      const write = (): void => {
+        process.stdout.write(line);
+      };
+      if (logWriteWrapper) {
+        logWriteWrapper(write);
+      } else {
+        write();
+      }
+    },
+  },
+);
@@ -1,6 +1,6 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { runCommand } from "../util/shell.js";
+import { runCommand, type RunCommandOptions, type RunCommandResult } from "../util/shell.js";
 import type { MediaInfo } from "../types.js";
 
 interface FfprobeJson {
@@ -10,11 +10,53 @@ interface FfprobeJson {
   streams?: Array<{
     codec_type?: string;
     codec_name?: string;
+    channels?: number;
   }>;
 }
 
 const videoExtensions = new Set([".mp4", ".mov", ".mkv", ".avi", ".webm"]);
 
+// Generous for hours of media; meant to catch a hung process, not a slow one.
+export const DEFAULT_COMMAND_TIMEOUT_SEC = 1800;
+
+export interface FfmpegRunOptions extends RunCommandOptions {
+  // Length of the media being processed, needed to turn ffmpeg's position into a percentage.
+  durationSec?: number;
+  onProgress?: (percent: number) => void;
+}
+
+// With onProgress, ffmpeg reports its position as key=value lines on stdout ("-progress pipe:1"). The
+// position is out_time_us (older builds name the same microsecond value out_time_ms).
+function runFfmpeg(args: string[], cwd: string, options: FfmpegRunOptions): Promise<RunCommandResult> {
+  const { durationSec, onProgress, ...commandOptions } = options;
+  if (!onProgress || !durationSec || durationSec <= 0) {
+    return runCommand("ffmpeg", args, cwd, commandOptions);
+  }
+
+  let pending = "";
+  let lastPercent = -1;
+  return runCommand("ffmpeg", ["-progress", "pipe:1", "-nostats", ...args], cwd, {
+    ...commandOptions,
+    onStdout: (chunk) => {
+      const lines = (pending + chunk).split("\n");
+      pending = lines.pop() ?? "";
+      for (const line of lines.map((item) => item.trim())) {
+        const match = /^out_time_(?:us|ms)=(\d+)$/.exec(line);
+        let percent: number | undefined;
+        if (match) {
+          percent = Math.min(100, Math.floor((Number(match[1]) / 1e6 / durationSec) * 100));
+        } else if (line === "progress=end") {
+          percent = 100;
+        }
+        if (percent !== undefined && percent > lastPercent) {
+          lastPercent = percent;
+          onProgress(percent);
+        }
+      }
+    },
+  });
+}
+
 export async function ensureFfmpegAvailable(cwd: string): Promise<void> {
   try {
     await runCommand("which", ["ffmpeg"], cwd);
@@ -26,11 +68,16 @@ export async function ensureFfmpegAvailable(cwd: string): Promise<void> {
   }
 }
 
-export async function probeMedia(inputPath: string, cwd: string): Promise<MediaInfo> {
+export async function probeMedia(
+  inputPath: string,
+  cwd: string,
+  options: RunCommandOptions = {},
+): Promise<MediaInfo> {
   const { stdout } = await runCommand(
     "ffprobe",
     ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", inputPath],
     cwd,
+    options,
   );
 
   const parsed = JSON.parse(stdout) as FfprobeJson;
@@ -40,7 +87,8 @@ export async function probeMedia(inputPath: string, cwd: string): Promise<MediaI
   const extensionIsVideo = videoExtensions.has(path.extname(inputPath).toLowerCase());
   const isVideo = hasVideoStream || extensionIsVideo;
 
-  const audioCodec = streams.find((stream) => stream.codec_type === "audio")?.codec_name;
+  const audioStream = streams.find((stream) => stream.codec_type === "audio");
+  const audioCodec = audioStream?.codec_name;
   const videoCodec = streams.find((stream) => stream.codec_type === "video")?.codec_name;
 
   return {
@@ -48,14 +96,19 @@ export async function probeMedia(inputPath: string, cwd: string): Promise<MediaI
     durationSec,
     isVideo,
     audioCodec,
+    audioChannels: audioStream?.channels,
     videoCodec,
   };
 }
 
-export async function extractAudioToWav(inputPath: string, outputPath: string, cwd: string): Promise<void> {
+export async function extractAudioToWav(
+  inputPath: string,
+  outputPath: string,
+  cwd: string,
+  options: FfmpegRunOptions = {},
+): Promise<void> {
   await fs.mkdir(path.dirname(outputPath), { recursive: true });
-  await runCommand(
-    "ffmpeg",
+  await runFfmpeg(
     [
       "-y",
       "-i",
@@ -70,6 +123,35 @@ export async function extractAudioToWav(inputPath: string, outputPath: string, c
       outputPath,
     ],
     cwd,
+    options,
+  );
+}
+
+// Full-band mono copy of the original track for mixing under the dub. With vocalReduction, a stereo source is
+// folded to its side signal (L - R), which cancels centre-panned dialogue while keeping most music and effects.
+export async function extractBackgroundAudio(
+  inputPath: string,
+  outputPath: string,
+  options: { sampleRate: number; vocalReduction: boolean },
+  cwd: string,
+  commandOptions: FfmpegRunOptions = {},
+): Promise<void> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await runFfmpeg(
+    [
+      "-y",
+      "-i",
+      inputPath,
+      "-vn",
+      ...(options.vocalReduction ? ["-af", "pan=mono|c0=0.5*c0-0.5*c1"] : ["-ac", "1"]),
+      "-ar",
+      String(options.sampleRate),
+      "-c:a",
+      "pcm_s16le",
+      outputPath,
+    ],
+    cwd,
+    commandOptions,
   );
 }
 
@@ -78,11 +160,11 @@ export async function muxDubbedAudioWithVideo(
   dubbedAudioPath: string,
   outputVideoPath: string,
   cwd: string,
+  options: FfmpegRunOptions = {},
 ): Promise<void> {
   await fs.mkdir(path.dirname(outputVideoPath), { recursive: true });
 
-  await runCommand(
-    "ffmpeg",
+  await runFfmpeg(
     [
       "-y",
       "-i",
@@ -101,14 +183,19 @@ export async function muxDubbedAudioWithVideo(
       outputVideoPath,
     ],
     cwd,
+    options,
   );
 }
 
-export async function convertWavToMp3(wavPath: string, outputPath: string, cwd: string): Promise<void> {
+export async function convertWavToMp3(
+  wavPath: string,
+  outputPath: string,
+  cwd: string,
+  options: FfmpegRunOptions = {},
+): Promise<void> {
   await fs.mkdir(path.dirname(outputPath), { recursive: true });
 
-  await runCommand(
-    "ffmpeg",
+  await runFfmpeg(
     [
       "-y",
       "-i",
@@ -120,5 +207,6 @@ export async function convertWavToMp3(wavPath: string, outputPath: string, cwd:
       outputPath,
     ],
     cwd,
+    options,
   );
 }
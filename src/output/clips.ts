@@ -0,0 +1,70 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { segmentClipPath, type SynthesizedSegment } from "../tts/synthesize.js";
+
+const MANIFEST_FILE = "clips.json";
+
+const clipsManifestSchema = z.object({
+  ttsProvider: z.string().min(1),
+  clips: z.array(
+    z.object({
+      index: z.number().int().nonnegative(),
+      speaker: z.string(),
+      startSec: z.number(),
+      endSec: z.number(),
+      translatedText: z.string(),
+      voiceName: z.string(),
+      style: z.string().optional(),
+      file: z.string().min(1),
+      sampleRate: z.number().positive(),
+      durationSec: z.number().nonnegative(),
+    }),
+  ),
+});
+
+// The TTS clips of a render are kept next to its segments JSON (`input_es_segments.json` ->
+// `input_es_segments.clips/`), so an edited copy of the file can be re-rendered after the artifacts are gone.
+export function clipsDirFor(segmentsJsonPath: string): string {
+  const { dir, name } = path.parse(segmentsJsonPath);
+  return path.join(dir, `${name}.clips`);
+}
+
+// Clips saved by an earlier render with the same TTS provider; none when there are none or they are unreadable.
+export async function loadSavedClips(clipsDir: string, ttsProvider: string): Promise<SynthesizedSegment[]> {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await fs.readFile(path.join(clipsDir, MANIFEST_FILE), "utf8"));
+  } catch {
+    return [];
+  }
+
+  const parsed = clipsManifestSchema.safeParse(manifest);
+  if (!parsed.success || parsed.data.ttsProvider !== ttsProvider) {
+    return [];
+  }
+  return parsed.data.clips.map(({ file, ...clip }) => ({ ...clip, wavPath: path.join(clipsDir, file) }));
+}
+
+// Replaces the saved clips. The new set may include files from the old one, so it is written to a sibling
+// directory first and swapped in afterwards.
+export async function saveClips(
+  clipsDir: string,
+  ttsProvider: string,
+  synthesized: SynthesizedSegment[],
+): Promise<void> {
+  const stagingDir = `${clipsDir}.partial`;
+  await fs.rm(stagingDir, { recursive: true, force: true });
+  await fs.mkdir(stagingDir, { recursive: true });
+
+  const clips = [];
+  for (const { wavPath, ...clip } of synthesized) {
+    const file = path.basename(segmentClipPath(stagingDir, clip.index));
+    await fs.copyFile(wavPath, path.join(stagingDir, file));
+    clips.push({ ...clip, file });
+  }
+  await fs.writeFile(path.join(stagingDir, MANIFEST_FILE), JSON.stringify({ ttsProvider, clips }, null, 2), "utf8");
+
+  await fs.rm(clipsDir, { recursive: true, force: true });
+  await fs.rename(stagingDir, clipsDir);
+}
@@ -0,0 +1,102 @@
+import fs from "node:fs/promises";
+import { z } from "zod";
+import type { LanguageDetection } from "../providers/types.js";
+import { DELIVERY_PACES, DELIVERY_VOLUMES } from "../tts/delivery.js";
+import { SPEAKER_AGE_RANGES, SPEAKER_ENERGIES, SPEAKER_GENDERS } from "../tts/voices.js";
+import type { Segment, SpeakerProfile } from "../types.js";
+
+const segmentSchema = z
+  .object({
+    speaker: z.string().trim().min(1),
+    startSec: z.number().nonnegative(),
+    endSec: z.number().nonnegative(),
+    sourceText: z.string(),
+    translatedText: z.string().trim().min(1),
+    delivery: z
+      .object({
+        emotion: z.string().optional(),
+        pace: z.enum(DELIVERY_PACES).optional(),
+        volume: z.enum(DELIVERY_VOLUMES).optional(),
+      })
+      .optional(),
+    fit: z
+      .object({
+        status: z.enum(["fits", "rewritten", "overrun"]),
+        windowSec: z.number(),
+        durationSec: z.number(),
+        rewrites: z.number().int().nonnegative(),
+      })
+      .optional(),
+  })
+  .refine((segment) => segment.endSec > segment.startSec, {
+    message: "endSec must be greater than startSec",
+    path: ["endSec"],
+  });
+
+const segmentsFileSchema = z.object({
+  inputPath: z.string().optional(),
+  sourceLanguage: z.string().min(1),
+  sourceLanguageDetection: z
+    .object({
+      language: z.string().min(1),
+      confidence: z.number(),
+    })
+    .optional(),
+  targetLanguage: z.string().min(1),
+  speakers: z
+    .array(
+      z.object({
+        speaker: z.string().trim().min(1),
+        gender: z.enum(SPEAKER_GENDERS),
+        ageRange: z.enum(SPEAKER_AGE_RANGES),
+        energy: z.enum(SPEAKER_ENERGIES),
+        style: z.string().optional(),
+      }),
+    )
+    .optional(),
+  voiceMap: z.record(z.string().min(1), z.string().min(1)).optional(),
+  segments: z.array(segmentSchema).min(1),
+});
+
+export interface SegmentsFile {
+  inputPath?: string;
+  sourceLanguage: string;
+  sourceLanguageDetection?: LanguageDetection;
+  targetLanguage: string;
+  speakers?: SpeakerProfile[];
+  // Voices the file was rendered with; re-renders keep them for the same speakers.
+  voiceMap?: Record<string, string>;
+  segments: Segment[];
+}
+
+export async function readSegmentsJson(inputPath: string): Promise<SegmentsFile> {
+  const content = await fs.readFile(inputPath, "utf8");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse segments file '${inputPath}': ${message}`);
+  }
+
+  const result = segmentsFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid segments file '${inputPath}': ${issues}`);
+  }
+
+  const segments = [...result.data.segments].sort((a, b) => a.startSec - b.startSec);
+
+  return {
+    inputPath: result.data.inputPath,
+    sourceLanguage: result.data.sourceLanguage,
+    sourceLanguageDetection: result.data.sourceLanguageDetection,
+    targetLanguage: result.data.targetLanguage,
+    speakers: result.data.speakers,
+    voiceMap: result.data.voiceMap,
+    segments,
+  };
+}
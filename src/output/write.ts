@@ -1,6 +1,9 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { Segment } from "../types.js";
+import type { LoudnessReport } from "../audio/loudness.js";
+import type { LanguageDetection } from "../providers/types.js";
+import type { GlossaryViolation } from "../translation/glossary.js";
+import type { Segment, SpeakerProfile } from "../types.js";
 
 function formatSrtTimestamp(seconds: number): string {
   const totalMs = Math.max(0, Math.round(seconds * 1000));
@@ -17,9 +20,14 @@ function formatSrtTimestamp(seconds: number): string {
 export async function writeSegmentsJson(params: {
   outputPath: string;
   sourceLanguage: string;
+  sourceLanguageDetection?: LanguageDetection;
   targetLanguage: string;
   inputPath: string;
   segments: Segment[];
+  glossaryViolations?: GlossaryViolation[];
+  speakers?: SpeakerProfile[];
+  voiceMap?: Record<string, string>;
+  loudness?: LoudnessReport;
 }): Promise<void> {
   await fs.mkdir(path.dirname(params.outputPath), { recursive: true });
 
@@ -27,8 +35,13 @@ export async function writeSegmentsJson(params: {
     createdAt: new Date().toISOString(),
     inputPath: params.inputPath,
     sourceLanguage: params.sourceLanguage,
+    sourceLanguageDetection: params.sourceLanguageDetection,
     targetLanguage: params.targetLanguage,
+    speakers: params.speakers,
+    voiceMap: params.voiceMap,
     segments: params.segments,
+    glossaryViolations: params.glossaryViolations,
+    loudness: params.loudness,
   };
 
   await fs.writeFile(params.outputPath, JSON.stringify(payload, null, 2), "utf8");
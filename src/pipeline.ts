@@ -1,141 +1,812 @@
+import type { EventEmitter } from "node:events";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { createGeminiClient } from "./gemini/client.js";
-import { transcribeAndTranslateAudio } from "./gemini/transcribeTranslate.js";
-import { buildSpeakerVoiceMap, synthesizeSegments } from "./gemini/tts.js";
+import { buildSpeakerVoiceMap, loadVoiceCast, resolveVoicePool, type VoiceCastFile } from "./tts/cast.js";
+import { DEFAULT_TTS_CONCURRENCY, synthesizeSegments, type SynthesizedSegment } from "./tts/synthesize.js";
+import { DEFAULT_FIT_MAX_ITERATIONS, DEFAULT_FIT_TOLERANCE_SEC, fitSegmentsToWindows } from "./tts/fit.js";
+import { createGeminiProviders } from "./providers/gemini.js";
+import { createFakeProviders } from "./providers/fake.js";
+import { createChunkedTranscriptionProvider } from "./providers/chunked.js";
+import { createRateLimitedTtsProvider } from "./providers/rateLimited.js";
+import { createCachedTranscriptionProvider, createCachedTtsProvider } from "./providers/cached.js";
+import type { LanguageDetection, PipelineProviders } from "./providers/types.js";
 import {
   convertWavToMp3,
   ensureFfmpegAvailable,
   extractAudioToWav,
+  extractBackgroundAudio,
   muxDubbedAudioWithVideo,
+  DEFAULT_COMMAND_TIMEOUT_SEC,
   probeMedia,
+  type FfmpegRunOptions,
 } from "./media/ffmpeg.js";
-import { composeDubbedTimeline } from "./audio/timeline.js";
+import { composeDubbedTimeline, DEFAULT_TIMELINE_SAMPLE_RATE } from "./audio/timeline.js";
+import { DEFAULT_DUCKING, DEFAULT_VOICE_OVER, mixDubWithBackground } from "./audio/mix.js";
+import { DEFAULT_CLIP_FADES } from "./audio/fade.js";
+import { resolveLoudnessTarget } from "./audio/loudness.js";
+import { DEFAULT_STRETCH_MAX_RATIO, DEFAULT_STRETCH_MIN_RATIO } from "./audio/stretch.js";
 import { writeSegmentsJson, writeSrt } from "./output/write.js";
+import { readSegmentsJson } from "./output/read.js";
+import { clipsDirFor, loadSavedClips, saveClips } from "./output/clips.js";
+import { findGlossaryViolations, glossaryRulesFor, loadGlossary, type GlossaryFile } from "./translation/glossary.js";
 import { logger } from "./logger.js";
-import { defaultTranscribeModel, defaultTtsModel } from "./config.js";
-import type { PipelineResult, RuntimeConfig } from "./types.js";
+import { withTimeout } from "./util/abort.js";
+import type { RetryOptions } from "./util/retry.js";
+import {
+  createProgressReporter,
+  type PipelineEventMap,
+  type ProgressListener,
+  type ProgressStage,
+} from "./progress.js";
+import { AUTO_SOURCE_LANGUAGE, defaultTranscribeModel, defaultTtsModel, parseVoicePool } from "./config.js";
+import { detectSourceLanguage } from "./language/detect.js";
+import {
+  assertCheckpointMatches,
+  buildCheckpointFingerprint,
+  createCheckpoint,
+  isStageComplete,
+  languageCheckpoint,
+  loadCheckpoint,
+  markStageComplete,
+  resetStages,
+  saveCheckpoint,
+  type CheckpointManifest,
+  type CheckpointStage,
+} from "./checkpoint.js";
+import type {
+  LanguageTarget,
+  MediaInfo,
+  PipelineLanguageResult,
+  PipelineResult,
+  RuntimeConfig,
+  Segment,
+  SpeakerProfile,
+} from "./types.js";
+
+export interface PipelineOptions {
+  // Overrides for individual stages; anything not given falls back to config.provider (default Gemini).
+  providers?: Partial<PipelineProviders>;
+  // Cancels the run. In-flight requests and ffmpeg processes are stopped, and the artifacts directory is kept
+  // so the run can be picked up again with --resume.
+  signal?: AbortSignal;
+  // Typed progress events (see progress.ts), delivered to the callback and/or emitted on the emitter.
+  onProgress?: ProgressListener;
+  events?: EventEmitter<PipelineEventMap>;
+}
+
+// Cancellation, time limits and progress reporting for one run.
+interface RunControl {
+  signal?: AbortSignal;
+  stageTimeoutMs?: number;
+  commandTimeoutMs: number;
+  progress: ProgressListener;
+}
+
+function createRunControl(config: RuntimeConfig, options: PipelineOptions): RunControl {
+  return {
+    signal: options.signal,
+    stageTimeoutMs: config.stageTimeoutSec !== undefined ? config.stageTimeoutSec * 1000 : undefined,
+    commandTimeoutMs: (config.commandTimeoutSec ?? DEFAULT_COMMAND_TIMEOUT_SEC) * 1000,
+    progress: createProgressReporter(options),
+  };
+}
+
+// Runs one stage under the stage time limit and reports its start and finish. The stage gets its own signal,
+// which also aborts when the whole run is cancelled, plus matching options for the ffmpeg calls it makes.
+async function runStage<T>(
+  control: RunControl,
+  stage: ProgressStage,
+  language: string | undefined,
+  run: (signal: AbortSignal | undefined, command: FfmpegRunOptions) => Promise<T>,
+): Promise<T> {
+  const label = language ? `Stage '${stage}' (${language})` : `Stage '${stage}'`;
+  const startedAt = Date.now();
+  control.progress({ type: "stage-start", stage, language });
+  const result = await withTimeout(label, control.stageTimeoutMs, control.signal, (signal) =>
+    run(signal, {
+      signal,
+      timeoutMs: control.commandTimeoutMs,
+      onProgress: (percent) => control.progress({ type: "ffmpeg-progress", stage, language, percent }),
+    }),
+  );
+  control.progress({ type: "stage-finish", stage, language, durationMs: Date.now() - startedAt });
+  return result;
+}
 
 async function copyFileEnsured(source: string, destination: string): Promise<void> {
   await fs.mkdir(path.dirname(destination), { recursive: true });
   await fs.copyFile(source, destination);
 }
 
-async function finalizeAudioOutput(dubbedWavPath: string, outputPath: string, cwd: string): Promise<void> {
+async function finalizeAudioOutput(
+  dubbedWavPath: string,
+  outputPath: string,
+  cwd: string,
+  command: FfmpegRunOptions,
+): Promise<void> {
   const ext = path.extname(outputPath).toLowerCase();
   if (ext === ".mp3") {
-    await convertWavToMp3(dubbedWavPath, outputPath, cwd);
+    await convertWavToMp3(dubbedWavPath, outputPath, cwd, command);
     return;
   }
 
   await copyFileEnsured(dubbedWavPath, outputPath);
 }
 
-export async function runPipeline(config: RuntimeConfig): Promise<PipelineResult> {
-  logger.info({ input: config.inputAbsolutePath }, "Starting Node.js dubbing pipeline");
+// Writes through "<name>.partial<ext>" and renames on success, so a cancelled or failed run never leaves a
+// truncated file at the output path. The extension stays last because ffmpeg picks the container from it.
+async function writeViaPartialFile(outputPath: string, write: (partialPath: string) => Promise<void>): Promise<void> {
+  const parsed = path.parse(outputPath);
+  const partialPath = path.join(parsed.dir, `${parsed.name}.partial${parsed.ext}`);
+  try {
+    await write(partialPath);
+  } catch (error) {
+    await fs.rm(partialPath, { force: true });
+    throw error;
+  }
+  await fs.rename(partialPath, outputPath);
+}
 
-  await fs.mkdir(config.artifactsDir, { recursive: true });
+async function fileExists(filePath: string): Promise<boolean> {
   try {
-    await ensureFfmpegAvailable(config.workDir);
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-    const mediaInfo = await probeMedia(config.inputAbsolutePath, config.workDir);
-    logger.info(
-      {
-        isVideo: mediaInfo.isVideo,
-        durationSec: mediaInfo.durationSec,
-        audioCodec: mediaInfo.audioCodec,
-        videoCodec: mediaInfo.videoCodec,
-      },
-      "Input media probed",
-    );
+async function canSkipStage(
+  control: RunControl,
+  manifest: CheckpointManifest,
+  stage: CheckpointStage,
+  outputPath: string,
+  language?: string,
+): Promise<boolean> {
+  if (!isStageComplete(manifest, stage, language)) {
+    return false;
+  }
 
-    const extractedAudioPath = path.join(config.artifactsDir, "audio", "source.wav");
-    await extractAudioToWav(config.inputAbsolutePath, extractedAudioPath, config.workDir);
+  const exists = await fileExists(outputPath);
+  if (exists) {
+    logger.info({ stage, language }, "Skipping stage completed by previous run");
+    control.progress({ type: "stage-skipped", stage, language });
+  }
+  return exists;
+}
 
-    const client = createGeminiClient(config.googleApiKey);
-    const transcribeModel = config.transcribeModel ?? defaultTranscribeModel(config.modelTier);
-    const ttsModel = config.ttsModel ?? defaultTtsModel(config.modelTier);
+function resolveProviders(config: RuntimeConfig, overrides: Partial<PipelineProviders> = {}): PipelineProviders {
+  const providers = resolveBaseProviders(config, overrides);
+  // The fake provider is local and instant, so it is never cached. Chunks are cached one by one, and TTS cache
+  // hits do not count against the rate limits.
+  const cacheDir = config.provider === "fake" ? undefined : config.cacheDirAbsolutePath;
+  if (cacheDir) {
+    providers.transcription = createCachedTranscriptionProvider(providers.transcription, { cacheDir });
+  }
+  if (config.chunkSec !== undefined) {
+    providers.transcription = createChunkedTranscriptionProvider(providers.transcription, {
+      chunkSec: config.chunkSec,
+      overlapSec: config.chunkOverlapSec,
+      concurrency: config.chunkConcurrency,
+    });
+  }
+  providers.tts = createRateLimitedTtsProvider(providers.tts, {
+    requestsPerMinute: config.ttsRequestsPerMinute,
+    charsPerMinute: config.ttsCharsPerMinute,
+  });
+  if (cacheDir) {
+    providers.tts = createCachedTtsProvider(providers.tts, { cacheDir });
+  }
+
+  return providers;
+}
 
-    logger.info({ transcribeModel, ttsModel }, "Using Gemini models");
+function resolveBaseProviders(config: RuntimeConfig, overrides: Partial<PipelineProviders>): PipelineProviders {
+  if (overrides.transcription && overrides.translation && overrides.tts) {
+    return { transcription: overrides.transcription, translation: overrides.translation, tts: overrides.tts };
+  }
 
-    const segments = await transcribeAndTranslateAudio({
-      client,
-      audioPath: extractedAudioPath,
-      sourceLanguage: config.sourceLanguage,
-      targetLanguage: config.targetLanguage,
-      model: transcribeModel,
+  let defaults: PipelineProviders;
+  if (config.provider === "fake") {
+    defaults = createFakeProviders();
+  } else {
+    const cassette = config.cassetteDir
+      ? { mode: config.cassetteMode ?? "replay", dir: path.resolve(config.workDir, config.cassetteDir) }
+      : undefined;
+    if (!config.googleApiKey && cassette?.mode !== "replay") {
+      throw new Error("GOOGLE_API_KEY is not set. Add it to your environment or .env file.");
+    }
+    const retry: RetryOptions = {
+      maxAttempts: config.retryAttempts,
+      maxDelayMs: config.retryMaxDelaySec !== undefined ? config.retryMaxDelaySec * 1000 : undefined,
+    };
+    defaults = createGeminiProviders({
+      client: createGeminiClient(config.googleApiKey, { cassette }),
+      transcribeModel: config.transcribeModel ?? defaultTranscribeModel(config.modelTier),
+      ttsModel: config.ttsModel ?? defaultTtsModel(config.modelTier),
+      retry,
+      // TTS 429s are left to the rate-limited wrapper (see resolveProviders), which pauses every worker at once.
+      ttsRetry: { ...retry, passThroughKinds: ["rate_limit"] },
     });
+  }
 
-    logger.info({ segmentCount: segments.length }, "Transcription+translation complete");
+  return { ...defaults, ...overrides };
+}
 
-    const speakerVoiceMap = buildSpeakerVoiceMap(segments, config.voiceA, config.voiceB);
+async function probeAndLog(config: RuntimeConfig, control: RunControl): Promise<MediaInfo> {
+  const mediaInfo = await probeMedia(config.inputAbsolutePath, config.workDir, {
+    signal: control.signal,
+    timeoutMs: control.commandTimeoutMs,
+  });
+  logger.info(
+    {
+      isVideo: mediaInfo.isVideo,
+      durationSec: mediaInfo.durationSec,
+      audioCodec: mediaInfo.audioCodec,
+      videoCodec: mediaInfo.videoCodec,
+    },
+    "Input media probed",
+  );
+  return mediaInfo;
+}
+
+// Shared by every target language, so it is extracted once per artifacts directory.
+async function prepareBackgroundAudio(
+  config: RuntimeConfig,
+  mediaInfo: MediaInfo,
+  command: FfmpegRunOptions,
+): Promise<string> {
+  const backgroundPath = path.join(config.artifactsDir, "audio", "background.wav");
+  if (await fileExists(backgroundPath)) {
+    return backgroundPath;
+  }
+
+  // Voice-over is meant to keep the original speaker audible, so vocal reduction never applies there.
+  const stereo = (mediaInfo.audioChannels ?? 1) >= 2;
+  const vocalReduction = Boolean(config.vocalReduction) && config.dubMode !== "voice-over";
+  if (vocalReduction && !stereo) {
+    logger.warn({ audioChannels: mediaInfo.audioChannels }, "Vocal reduction needs a stereo source; skipping it");
+  }
+
+  await extractBackgroundAudio(
+    config.inputAbsolutePath,
+    backgroundPath,
+    { sampleRate: DEFAULT_TIMELINE_SAMPLE_RATE, vocalReduction: vocalReduction && stereo },
+    config.workDir,
+    { ...command, durationSec: mediaInfo.durationSec },
+  );
+  return backgroundPath;
+}
 
-    const synthesizedSegments = await synthesizeSegments({
-      client,
-      model: ttsModel,
+async function renderDubbedOutputs(params: {
+  config: RuntimeConfig;
+  control: RunControl;
+  target: LanguageTarget;
+  providers: PipelineProviders;
+  mediaInfo: MediaInfo;
+  segments: Segment[];
+  checkpoint: CheckpointManifest;
+  sourceLanguage: string;
+  sourceLanguageDetection?: LanguageDetection;
+  glossary?: GlossaryFile;
+  voiceCast?: VoiceCastFile;
+  speakers: SpeakerProfile[];
+  // Voices from an earlier render of these segments; speakers keep them unless the cast file says otherwise.
+  previousVoiceMap?: Record<string, string>;
+  // Re-renders keep the (possibly hand-edited) translations verbatim: overruns are only stretched and truncated.
+  keepTranslations?: boolean;
+  // Clips saved next to the segments JSON being re-rendered; unchanged segments reuse them.
+  savedClips?: SynthesizedSegment[];
+}): Promise<PipelineLanguageResult> {
+  const { config, control, target, checkpoint, mediaInfo } = params;
+  const language = target.language;
+  const languageDir = path.join(config.artifactsDir, language);
+  const ttsDir = path.join(languageDir, "tts_segments");
+  const languageState = languageCheckpoint(checkpoint, language);
+
+  const speakerVoiceMap = buildSpeakerVoiceMap(params.segments, {
+    pool: resolveVoicePool({
+      voiceA: config.voiceA,
+      voiceB: config.voiceB,
+      pool: config.voicePool ? parseVoicePool(config.voicePool) : undefined,
+      cast: params.voiceCast,
+    }),
+    cast: params.voiceCast,
+    previous: params.previousVoiceMap,
+    speakers: params.speakers,
+    preferred: [config.voiceA, config.voiceB ?? ""].filter(Boolean),
+  });
+  logger.info({ language, voiceMap: speakerVoiceMap }, "Cast speaker voices");
+  // A new clip makes the dubbed track and the output built from the old ones stale.
+  const recordSynthesized = async (segment: SynthesizedSegment): Promise<void> => {
+    languageState.synthesizedSegments = [
+      ...languageState.synthesizedSegments.filter((item) => item.index !== segment.index),
+      segment,
+    ];
+    resetStages(checkpoint, ["timeline", "mux"], language);
+    await saveCheckpoint(config.artifactsDir, checkpoint);
+  };
+
+  const stretch = {
+    minRatio: config.stretchMinRatio ?? DEFAULT_STRETCH_MIN_RATIO,
+    maxRatio: config.stretchMaxRatio ?? DEFAULT_STRETCH_MAX_RATIO,
+  };
+
+  // After a completed tts stage the segments already carry their rewrites and fit status.
+  const ttsAlreadyComplete = isStageComplete(checkpoint, "tts", language);
+  let segments = params.segments;
+  let synthesizedSegments = await runStage(control, "tts", language, async (signal) => {
+    const synthesized = await synthesizeSegments({
+      provider: params.providers.tts,
       segments,
       voiceMap: speakerVoiceMap,
-      outputDir: path.join(config.artifactsDir, "tts_segments"),
+      defaultStyle: config.ttsStyle,
+      outputDir: ttsDir,
+      concurrency: config.ttsConcurrency ?? DEFAULT_TTS_CONCURRENCY,
+      completed: [...languageState.synthesizedSegments, ...(params.savedClips ?? [])],
+      onSegmentSynthesized: recordSynthesized,
+      onProgress: (progress) => control.progress({ type: "segment-synthesized", language, ...progress }),
+      signal,
+    });
+    if (ttsAlreadyComplete) {
+      return synthesized;
+    }
+
+    const fitted = await fitSegmentsToWindows({
+      translation: params.providers.translation,
+      tts: params.providers.tts,
+      segments,
+      synthesized,
+      outputDir: ttsDir,
+      sourceLanguage: params.sourceLanguage,
+      targetLanguage: language,
+      toleranceSec: config.fitToleranceSec ?? DEFAULT_FIT_TOLERANCE_SEC,
+      maxIterations: params.keepTranslations ? 0 : (config.fitMaxIterations ?? DEFAULT_FIT_MAX_ITERATIONS),
+      minStretchRatio: stretch.minRatio,
+      glossary: params.glossary && glossaryRulesFor(params.glossary, language),
+      // The rewritten text goes into the checkpoint with its clip, so a resumed run reuses the clip instead of
+      // synthesizing and shortening the original translation again. The fit is provisional until the stage ends.
+      onSegmentRefitted: async (clip, rewrites) => {
+        languageState.segments = (languageState.segments ?? segments).map((segment, index) =>
+          index === clip.index
+            ? {
+                ...segment,
+                translatedText: clip.translatedText,
+                fit: {
+                  status: "rewritten",
+                  windowSec: segment.endSec - segment.startSec,
+                  durationSec: clip.durationSec,
+                  rewrites,
+                },
+              }
+            : segment,
+        );
+        await recordSynthesized(clip);
+      },
+      signal,
     });
+    segments = fitted.segments;
+    languageState.segments = segments;
+    return fitted.synthesized;
+  });
 
-    logger.info({ synthesizedCount: synthesizedSegments.length }, "TTS synthesis complete");
+  languageState.synthesizedSegments = synthesizedSegments;
+  await markStageComplete(config.artifactsDir, checkpoint, "tts", language);
 
-    const dubbedAudioPath = path.join(config.artifactsDir, "audio", "dubbed.wav");
-    await composeDubbedTimeline({
-      segments: synthesizedSegments,
-      outputWavPath: dubbedAudioPath,
-      mediaDurationSec: mediaInfo.durationSec,
+  logger.info(
+    {
+      language,
+      synthesizedCount: synthesizedSegments.length,
+      rewritten: segments.filter((segment) => segment.fit?.status === "rewritten").length,
+      overrun: segments.filter((segment) => segment.fit?.status === "overrun").length,
+    },
+    "TTS synthesis complete",
+  );
+
+  // dubbed.wav is always the speech-only stem; with --keep-background the muxed track is the mix.
+  // In voice-over mode the original track is always mixed in, and ducks to the bed level under the translation.
+  const voiceOver = config.dubMode === "voice-over";
+  const leadInSec = voiceOver ? (config.leadInSec ?? DEFAULT_VOICE_OVER.leadInSec) : 0;
+  const speechAudioPath = path.join(languageDir, "dubbed.wav");
+  const mixOriginal = voiceOver || Boolean(config.keepBackground);
+  const dubbedAudioPath = mixOriginal ? path.join(languageDir, "mixed.wav") : speechAudioPath;
+  const loudness = resolveLoudnessTarget(config.loudnessTarget, config.truePeakDbtp);
+  if (!(await canSkipStage(control, checkpoint, "timeline", dubbedAudioPath, language))) {
+    await runStage(control, "timeline", language, async (signal, command) => {
+      languageState.loudness = await composeDubbedTimeline({
+        segments: synthesizedSegments,
+        outputWavPath: speechAudioPath,
+        mediaDurationSec: mediaInfo.durationSec,
+        stretch,
+        leadInSec,
+        fades: {
+          fadeInMs: config.fadeInMs ?? DEFAULT_CLIP_FADES.fadeInMs,
+          fadeOutMs: config.fadeOutMs ?? DEFAULT_CLIP_FADES.fadeOutMs,
+          crossfadeMs: config.crossfadeMs ?? DEFAULT_CLIP_FADES.crossfadeMs,
+          trimSilenceDb: config.noTrimSilence ? undefined : (config.trimSilenceDb ?? DEFAULT_CLIP_FADES.trimSilenceDb),
+        },
+        loudness,
+        resampleQuality: config.resampleQuality,
+      });
+      if (!mixOriginal) {
+        return;
+      }
+      const backgroundWavPath = await prepareBackgroundAudio(config, mediaInfo, command);
+      signal?.throwIfAborted();
+      const mixLoudness = await mixDubWithBackground({
+        dubWavPath: speechAudioPath,
+        backgroundWavPath,
+        outputWavPath: dubbedAudioPath,
+        windows: segments.map((segment) => ({
+          startSec: segment.startSec + leadInSec,
+          endSec: segment.endSec + leadInSec,
+        })),
+        ducking: {
+          backgroundDb: config.backgroundDb ?? DEFAULT_DUCKING.backgroundDb,
+          duckDb: voiceOver ? (config.bedDb ?? DEFAULT_VOICE_OVER.bedDb) : (config.duckDb ?? DEFAULT_DUCKING.duckDb),
+          attackMs: config.duckAttackMs ?? DEFAULT_DUCKING.attackMs,
+          releaseMs: config.duckReleaseMs ?? DEFAULT_DUCKING.releaseMs,
+          dubDb: config.dubDb ?? DEFAULT_DUCKING.dubDb,
+        },
+        loudness,
+        resampleQuality: config.resampleQuality,
+      });
+      if (languageState.loudness && mixLoudness) {
+        languageState.loudness.output = mixLoudness;
+      }
     });
+    await markStageComplete(config.artifactsDir, checkpoint, "timeline", language);
+    if (languageState.loudness) {
+      logger.info(
+        {
+          language,
+          targetLufs: languageState.loudness.target.integratedLufs,
+          ...languageState.loudness.output,
+        },
+        "Loudness normalized",
+      );
+    }
+  }
 
-    const outputBaseWithoutExt = path.join(
-      path.dirname(config.outputAbsolutePath),
-      path.parse(config.outputAbsolutePath).name,
+  const glossaryViolations = params.glossary
+    ? findGlossaryViolations(segments, glossaryRulesFor(params.glossary, language))
+    : [];
+  if (glossaryViolations.length > 0) {
+    logger.warn(
+      {
+        language,
+        violationCount: glossaryViolations.length,
+        segments: [...new Set(glossaryViolations.map((item) => item.segmentIndex))],
+      },
+      "Translation violates the glossary; see glossaryViolations in the segments JSON",
     );
+  }
 
-    await writeSegmentsJson({
-      outputPath: config.outputJsonAbsolutePath,
-      sourceLanguage: config.sourceLanguage,
-      targetLanguage: config.targetLanguage,
-      inputPath: config.inputAbsolutePath,
-      segments,
-    });
+  const outputBaseWithoutExt = path.join(
+    path.dirname(target.outputAbsolutePath),
+    path.parse(target.outputAbsolutePath).name,
+  );
 
-    await writeSrt({
-      outputPath: `${outputBaseWithoutExt}.${config.sourceLanguage}.srt`,
-      segments,
-      field: "sourceText",
-    });
+  await writeSegmentsJson({
+    outputPath: target.outputJsonAbsolutePath,
+    sourceLanguage: params.sourceLanguage,
+    sourceLanguageDetection: params.sourceLanguageDetection,
+    targetLanguage: language,
+    inputPath: config.inputAbsolutePath,
+    segments,
+    glossaryViolations: params.glossary ? glossaryViolations : undefined,
+    speakers: params.speakers,
+    voiceMap: speakerVoiceMap,
+    loudness: languageState.loudness,
+  });
+  if (config.saveClips) {
+    await saveClips(clipsDirFor(target.outputJsonAbsolutePath), params.providers.tts.id, synthesizedSegments);
+  }
 
-    await writeSrt({
-      outputPath: `${outputBaseWithoutExt}.${config.targetLanguage}.srt`,
-      segments,
-      field: "translatedText",
+  await writeSrt({
+    outputPath: `${outputBaseWithoutExt}.${params.sourceLanguage}.srt`,
+    segments,
+    field: "sourceText",
+  });
+
+  await writeSrt({
+    outputPath: `${outputBaseWithoutExt}.${language}.srt`,
+    segments,
+    field: "translatedText",
+  });
+
+  if (!(await canSkipStage(control, checkpoint, "mux", target.outputAbsolutePath, language))) {
+    await runStage(control, "mux", language, (_signal, command) => {
+      const muxCommand = { ...command, durationSec: mediaInfo.durationSec };
+      return writeViaPartialFile(target.outputAbsolutePath, (partialPath) =>
+        mediaInfo.isVideo
+          ? muxDubbedAudioWithVideo(config.inputAbsolutePath, dubbedAudioPath, partialPath, config.workDir, muxCommand)
+          : finalizeAudioOutput(dubbedAudioPath, partialPath, config.workDir, muxCommand),
+      );
     });
+    await markStageComplete(config.artifactsDir, checkpoint, "mux", language);
+  }
 
-    if (mediaInfo.isVideo) {
-      await muxDubbedAudioWithVideo(
-        config.inputAbsolutePath,
-        dubbedAudioPath,
-        config.outputAbsolutePath,
-        config.workDir,
+  logger.info({ language, outputPath: target.outputAbsolutePath }, "Language output complete");
+
+  return {
+    targetLanguage: language,
+    segments,
+    dubbedAudioPath,
+    outputPath: target.outputAbsolutePath,
+    outputJsonPath: target.outputJsonAbsolutePath,
+    glossaryViolations,
+    voiceMap: speakerVoiceMap,
+  };
+}
+
+async function withArtifactsCleanup<T>(config: RuntimeConfig, run: () => Promise<T>): Promise<T> {
+  await fs.mkdir(config.artifactsDir, { recursive: true });
+  let succeeded = false;
+  try {
+    const result = await run();
+    succeeded = true;
+    return result;
+  } finally {
+    if (!succeeded) {
+      // Keep checkpoints from failed runs so they can be picked up again with --resume.
+      logger.warn({ artifactsDir: config.artifactsDir }, "Pipeline did not finish; artifacts kept for --resume");
+    } else if (!config.keepArtifacts) {
+      await fs.rm(config.artifactsDir, { recursive: true, force: true });
+    }
+  }
+}
+
+function buildPipelineResult(
+  mediaInfo: MediaInfo,
+  languages: PipelineLanguageResult[],
+  source: { sourceLanguage: string; sourceLanguageDetection?: LanguageDetection; speakers: SpeakerProfile[] },
+  extractedAudioPath?: string,
+): PipelineResult {
+  // Top-level fields mirror the first target language for single-language callers.
+  const [primary] = languages;
+  return {
+    mediaInfo,
+    sourceLanguage: source.sourceLanguage,
+    sourceLanguageDetection: source.sourceLanguageDetection,
+    speakers: source.speakers,
+    segments: primary.segments,
+    extractedAudioPath,
+    dubbedAudioPath: primary.dubbedAudioPath,
+    outputPath: primary.outputPath,
+    outputJsonPath: primary.outputJsonPath,
+    languages,
+  };
+}
+
+export async function runPipeline(config: RuntimeConfig, options: PipelineOptions = {}): Promise<PipelineResult> {
+  logger.info(
+    { input: config.inputAbsolutePath, targetLanguages: config.targets.map((target) => target.language) },
+    "Starting Node.js dubbing pipeline",
+  );
+
+  const control = createRunControl(config, options);
+  return withArtifactsCleanup(config, async () => {
+    await ensureFfmpegAvailable(config.workDir);
+
+    const providers = resolveProviders(config, options.providers);
+    logger.info(
+      {
+        transcription: providers.transcription.id,
+        translation: providers.translation.id,
+        tts: providers.tts.id,
+      },
+      "Using providers",
+    );
+
+    const fingerprint = await buildCheckpointFingerprint(config, providers);
+    let checkpoint: CheckpointManifest;
+    if (config.resume) {
+      checkpoint = await loadCheckpoint(config.artifactsDir);
+      assertCheckpointMatches(checkpoint, fingerprint);
+      logger.info(
+        { artifactsDir: config.artifactsDir, completedStages: checkpoint.completedStages },
+        "Resuming from checkpoint",
       );
     } else {
-      await finalizeAudioOutput(dubbedAudioPath, config.outputAbsolutePath, config.workDir);
+      checkpoint = createCheckpoint(fingerprint);
+      await saveCheckpoint(config.artifactsDir, checkpoint);
+    }
+
+    const mediaInfo = await probeAndLog(config, control);
+    checkpoint.mediaInfo = mediaInfo;
+
+    const extractedAudioPath = path.join(config.artifactsDir, "audio", "source.wav");
+    if (!(await canSkipStage(control, checkpoint, "extract", extractedAudioPath))) {
+      await runStage(control, "extract", undefined, (_signal, command) =>
+        extractAudioToWav(config.inputAbsolutePath, extractedAudioPath, config.workDir, {
+          ...command,
+          durationSec: mediaInfo.durationSec,
+        }),
+      );
+      await markStageComplete(config.artifactsDir, checkpoint, "extract");
+    }
+
+    let sourceLanguage = config.sourceLanguage;
+    if (sourceLanguage === AUTO_SOURCE_LANGUAGE) {
+      if (!checkpoint.sourceLanguageDetection) {
+        checkpoint.sourceLanguageDetection = await runStage(control, "detect", undefined, (signal) =>
+          detectSourceLanguage({
+            provider: providers.transcription,
+            audioPath: extractedAudioPath,
+            outputDir: path.dirname(extractedAudioPath),
+            signal,
+          }),
+        );
+        await saveCheckpoint(config.artifactsDir, checkpoint);
+      }
+      sourceLanguage = checkpoint.sourceLanguageDetection.language;
+    }
+    const sourceLanguageDetection = checkpoint.sourceLanguageDetection;
+
+    const glossary = config.glossaryAbsolutePath ? await loadGlossary(config.glossaryAbsolutePath) : undefined;
+    const voiceCast = config.voiceCastAbsolutePath ? await loadVoiceCast(config.voiceCastAbsolutePath) : undefined;
+
+    // By default the multimodal request transcribes and translates into the first target language in one go;
+    // further languages are translated from that transcript as text only. In two-pass mode the audio is only
+    // transcribed and every language goes through the text translation pass, where the glossary applies.
+    const [primaryTarget] = config.targets;
+    const combinedTarget = config.twoPass ? undefined : primaryTarget;
+    let transcript = checkpoint.segments;
+    let speakers = checkpoint.speakers ?? [];
+    if (!transcript || !isStageComplete(checkpoint, "transcribe")) {
+      const transcribed = await runStage(control, "transcribe", undefined, (signal) =>
+        providers.transcription.transcribe({
+          audioPath: extractedAudioPath,
+          sourceLanguage,
+          targetLanguage: combinedTarget?.language,
+          signal,
+          onUploadProgress: (bytesUploaded, totalBytes) =>
+            control.progress({ type: "upload-progress", stage: "transcribe", bytesUploaded, totalBytes }),
+        }),
+      );
+      transcript = transcribed.segments;
+      speakers = transcribed.speakers;
+      checkpoint.segments = transcript;
+      checkpoint.speakers = speakers;
+      await markStageComplete(config.artifactsDir, checkpoint, "transcribe");
+    } else {
+      logger.info({ stage: "transcribe" }, "Skipping stage completed by previous run");
+      control.progress({ type: "stage-skipped", stage: "transcribe" });
+    }
+
+    logger.info(
+      { segmentCount: transcript.length, speakers },
+      config.twoPass ? "Transcription complete" : "Transcription+translation complete",
+    );
+
+    const languages: PipelineLanguageResult[] = [];
+    for (const target of config.targets) {
+      const languageState = languageCheckpoint(checkpoint, target.language);
+
+      let segments = languageState.segments;
+      if (!segments || !isStageComplete(checkpoint, "translate", target.language)) {
+        segments =
+          target === combinedTarget
+            ? transcript
+            : await runStage(control, "translate", target.language, (signal) =>
+                providers.translation.translate({
+                  segments: transcript,
+                  sourceLanguage,
+                  targetLanguage: target.language,
+                  glossary: glossary && glossaryRulesFor(glossary, target.language),
+                  signal,
+                }),
+              );
+        languageState.segments = segments;
+        await markStageComplete(config.artifactsDir, checkpoint, "translate", target.language);
+        logger.info({ language: target.language, segmentCount: segments.length }, "Translation complete");
+      } else {
+        control.progress({ type: "stage-skipped", stage: "translate", language: target.language });
+      }
+
+      languages.push(
+        await renderDubbedOutputs({
+          config,
+          control,
+          target,
+          providers,
+          mediaInfo,
+          segments,
+          checkpoint,
+          sourceLanguage,
+          sourceLanguageDetection,
+          glossary,
+          voiceCast,
+          speakers,
+        }),
+      );
     }
 
-    logger.info({ outputPath: config.outputAbsolutePath }, "Pipeline complete");
+    logger.info({ outputs: languages.map((item) => item.outputPath) }, "Pipeline complete");
 
-    return {
+    return buildPipelineResult(
       mediaInfo,
-      segments,
+      languages,
+      { sourceLanguage, sourceLanguageDetection, speakers },
       extractedAudioPath,
-      dubbedAudioPath,
-      outputPath: config.outputAbsolutePath,
-      outputJsonPath: config.outputJsonAbsolutePath,
-    };
-  } finally {
-    if (!config.keepArtifacts) {
-      await fs.rm(config.artifactsDir, { recursive: true, force: true });
-    }
+    );
+  });
+}
+
+export async function rerenderFromSegmentsJson(
+  config: RuntimeConfig,
+  segmentsJsonPath: string,
+  options: PipelineOptions = {},
+): Promise<PipelineResult> {
+  logger.info({ input: config.inputAbsolutePath, segmentsJsonPath }, "Re-rendering dub from segments JSON");
+
+  if (config.targets.length !== 1) {
+    throw new Error("Re-rendering from a segments file supports exactly one target language.");
+  }
+  const [target] = config.targets;
+
+  const segmentsFile = await readSegmentsJson(segmentsJsonPath);
+  // With "auto" the language recorded in the file (detected by the original run) is taken as is.
+  const sourceLanguage =
+    config.sourceLanguage === AUTO_SOURCE_LANGUAGE ? segmentsFile.sourceLanguage : config.sourceLanguage;
+  if (segmentsFile.sourceLanguage !== sourceLanguage || segmentsFile.targetLanguage !== target.language) {
+    throw new Error(
+      `Segments file '${segmentsJsonPath}' is ${segmentsFile.sourceLanguage} -> ${segmentsFile.targetLanguage}, ` +
+        `but this run is ${sourceLanguage} -> ${target.language}.`,
+    );
   }
+
+  const control = createRunControl(config, options);
+  return withArtifactsCleanup(config, async () => {
+    await ensureFfmpegAvailable(config.workDir);
+
+    const providers = resolveProviders(config, options.providers);
+
+    // Re-renders only reuse TTS audio, so only options that affect synthesis have to match the checkpoint.
+    const fingerprint = await buildCheckpointFingerprint(config, providers);
+    let checkpoint: CheckpointManifest;
+    if (config.resume) {
+      checkpoint = await loadCheckpoint(config.artifactsDir);
+      assertCheckpointMatches(checkpoint, fingerprint, ["ttsProvider", "voiceA", "voiceB"]);
+    } else {
+      checkpoint = createCheckpoint(fingerprint);
+    }
+
+    // The fit reports in the file describe the earlier render; the edited text is measured afresh.
+    const segments = segmentsFile.segments.map((segment) => ({ ...segment, fit: undefined }));
+    resetStages(checkpoint, ["tts", "timeline", "mux"], target.language);
+    languageCheckpoint(checkpoint, target.language).segments = segments;
+    await markStageComplete(config.artifactsDir, checkpoint, "translate", target.language);
+
+    const mediaInfo = await probeAndLog(config, control);
+    checkpoint.mediaInfo = mediaInfo;
+
+    const result = await renderDubbedOutputs({
+      config,
+      control,
+      target,
+      providers,
+      mediaInfo,
+      segments,
+      checkpoint,
+      sourceLanguage,
+      sourceLanguageDetection: segmentsFile.sourceLanguageDetection,
+      glossary: config.glossaryAbsolutePath ? await loadGlossary(config.glossaryAbsolutePath) : undefined,
+      voiceCast: config.voiceCastAbsolutePath ? await loadVoiceCast(config.voiceCastAbsolutePath) : undefined,
+      speakers: segmentsFile.speakers ?? [],
+      previousVoiceMap: segmentsFile.voiceMap,
+      keepTranslations: true,
+      savedClips: await loadSavedClips(clipsDirFor(segmentsJsonPath), providers.tts.id),
+    });
+
+    logger.info({ outputPath: result.outputPath }, "Re-render complete");
+
+    return buildPipelineResult(mediaInfo, [result], {
+      sourceLanguage,
+      sourceLanguageDetection: segmentsFile.sourceLanguageDetection,
+      speakers: segmentsFile.speakers ?? [],
+    });
+  });
 }
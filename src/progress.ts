@@ -0,0 +1,51 @@
+import { EventEmitter } from "node:events";
+import type { CheckpointStage } from "./checkpoint.js";
+import { logger } from "./logger.js";
+
+// Checkpointed stages plus source language detection, which is recorded in the checkpoint without a stage.
+export type ProgressStage = CheckpointStage | "detect";
+
+export type ProgressEvent =
+  | { type: "stage-start"; stage: ProgressStage; language?: string }
+  | { type: "stage-finish"; stage: ProgressStage; language?: string; durationMs: number }
+  // A stage completed by an earlier run that --resume does not repeat.
+  | { type: "stage-skipped"; stage: ProgressStage; language?: string }
+  // Counts clips reused from an earlier run as well as newly synthesized ones.
+  | { type: "segment-synthesized"; language: string; index: number; completed: number; total: number }
+  | { type: "ffmpeg-progress"; stage: ProgressStage; language?: string; percent: number }
+  // Audio too large to send inline goes through the Gemini Files API in 8 MiB chunks.
+  | { type: "upload-progress"; stage: ProgressStage; bytesUploaded: number; totalBytes: number };
+
+export type ProgressEventType = ProgressEvent["type"];
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// Every event is emitted as "progress" and under its own type, e.g. "segment-synthesized".
+export type PipelineEventMap = { progress: [ProgressEvent] } & {
+  [E in ProgressEvent as E["type"]]: [E];
+};
+
+export function createPipelineEvents(): EventEmitter<PipelineEventMap> {
+  return new EventEmitter<PipelineEventMap>();
+}
+
+// Fans events out to the callback and the emitter. A throwing listener is logged and otherwise ignored, so a
+// broken progress consumer never fails the run.
+export function createProgressReporter(options: {
+  onProgress?: ProgressListener;
+  events?: EventEmitter<PipelineEventMap>;
+}): ProgressListener {
+  const { onProgress, events } = options;
+  return (event) => {
+    try {
+      onProgress?.(event);
+      if (events) {
+        events.emit("progress", event);
+        (events as EventEmitter).emit(event.type, event);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn({ err: message, event: event.type }, "Progress listener failed");
+    }
+  };
+}
@@ -0,0 +1,94 @@
+import { setLogWriteWrapper } from "./logger.js";
+import type { ProgressEvent, ProgressListener } from "./progress.js";
+
+export interface ProgressDisplay {
+  listener: ProgressListener;
+  stop(): void;
+}
+
+// Redraws at most this often, plus once a second so the elapsed time keeps moving.
+const MIN_REDRAW_MS = 100;
+
+function formatElapsed(ms: number): string {
+  const totalSec = Math.floor(ms / 1000);
+  return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, "0")}`;
+}
+
+function formatMiB(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(1);
+}
+
+function describeDetail(event: ProgressEvent): string | undefined {
+  switch (event.type) {
+    case "segment-synthesized":
+      return `${event.completed}/${event.total} segments`;
+    case "ffmpeg-progress":
+      return `${event.percent}%`;
+    case "upload-progress":
+      return `upload ${formatMiB(event.bytesUploaded)}/${formatMiB(event.totalBytes)} MiB`;
+    default:
+      return undefined;
+  }
+}
+
+// One status line on a TTY, e.g. "[tts es] 12/40 segments 0:42", rewritten in place as events arrive. Log lines
+// are written above it: the line is cleared before each log write and drawn again after.
+export function createProgressDisplay(stream: NodeJS.WriteStream): ProgressDisplay {
+  let stageLabel: string | undefined;
+  let detail: string | undefined;
+  let stageStartedAt = Date.now();
+  let lastDrawAt = 0;
+  let drawn = false;
+
+  const clear = (): void => {
+    if (drawn) {
+      stream.write("\r\x1b[K");
+      drawn = false;
+    }
+  };
+
+  const draw = (): void => {
+    if (!stageLabel) {
+      return;
+    }
+    const parts = [`[${stageLabel}]`, detail, formatElapsed(Date.now() - stageStartedAt)].filter(Boolean);
+    const line = parts.join(" ").slice(0, Math.max(10, (stream.columns || 80) - 1));
+    stream.write(`\r\x1b[K${line}`);
+    drawn = true;
+    lastDrawAt = Date.now();
+  };
+
+  const ticker = setInterval(draw, 1000);
+  ticker.unref();
+  setLogWriteWrapper((write) => {
+    clear();
+    write();
+    draw();
+  });
+
+  return {
+    listener: (event) => {
+      if (event.type === "stage-start") {
+        stageLabel = event.language ? `${event.stage} ${event.language}` : event.stage;
+        detail = undefined;
+        stageStartedAt = Date.now();
+      } else if (event.type === "stage-finish" || event.type === "stage-skipped") {
+        stageLabel = undefined;
+        detail = undefined;
+        clear();
+        return;
+      } else {
+        detail = describeDetail(event) ?? detail;
+      }
+
+      if (event.type === "stage-start" || Date.now() - lastDrawAt >= MIN_REDRAW_MS) {
+        draw();
+      }
+    },
+    stop: () => {
+      clearInterval(ticker);
+      setLogWriteWrapper(undefined);
+      clear();
+    },
+  };
+}
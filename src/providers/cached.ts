@@ -0,0 +1,71 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { readWavPcm16Mono } from "../audio/wav.js";
+import { cacheEntryPath, cacheKey, hashFile, touchCacheEntry, writeCacheEntry } from "../cache/store.js";
+import { logger } from "../logger.js";
+import type { Transcript } from "../types.js";
+import type { TranscriptionProvider, TtsProvider } from "./types.js";
+
+// Part of every key, so a change to what is stored invalidates all existing entries.
+const CACHE_FORMAT_VERSION = 1;
+
+// Serves repeated TTS requests from the cache directory. The key covers the provider id (which names the
+// model), voice, style instruction and text, so any change to what would be spoken misses.
+export function createCachedTtsProvider(inner: TtsProvider, options: { cacheDir: string }): TtsProvider {
+  return {
+    id: inner.id,
+    synthesize: async (request) => {
+      const key = cacheKey([CACHE_FORMAT_VERSION, inner.id, request.voiceName, request.style, request.text]);
+      const entryPath = cacheEntryPath(options.cacheDir, "tts", key, ".wav");
+      await fs.mkdir(path.dirname(request.outputPath), { recursive: true });
+
+      if (await touchCacheEntry(entryPath)) {
+        await fs.copyFile(entryPath, request.outputPath);
+        const wav = await readWavPcm16Mono(request.outputPath);
+        logger.debug({ outputPath: request.outputPath, key }, "TTS cache hit");
+        return {
+          wavPath: request.outputPath,
+          sampleRate: wav.sampleRate,
+          durationSec: wav.samples.length / wav.sampleRate,
+        };
+      }
+
+      const clip = await inner.synthesize(request);
+      await writeCacheEntry(entryPath, await fs.readFile(clip.wavPath));
+      return clip;
+    },
+  };
+}
+
+// Serves repeated transcriptions of byte-identical audio from the cache directory. The key covers the audio
+// hash, provider id and prompt version and both languages.
+export function createCachedTranscriptionProvider(
+  inner: TranscriptionProvider,
+  options: { cacheDir: string },
+): TranscriptionProvider {
+  return {
+    id: inner.id,
+    version: inner.version,
+    detectLanguage: inner.detectLanguage?.bind(inner),
+    transcribe: async (request) => {
+      const key = cacheKey([
+        CACHE_FORMAT_VERSION,
+        await hashFile(request.audioPath),
+        inner.id,
+        inner.version,
+        request.sourceLanguage,
+        request.targetLanguage,
+      ]);
+      const entryPath = cacheEntryPath(options.cacheDir, "transcription", key, ".json");
+
+      if (await touchCacheEntry(entryPath)) {
+        logger.info({ audioPath: request.audioPath, key }, "Using cached transcription");
+        return JSON.parse(await fs.readFile(entryPath, "utf8")) as Transcript;
+      }
+
+      const transcript = await inner.transcribe(request);
+      await writeCacheEntry(entryPath, JSON.stringify(transcript));
+      return transcript;
+    },
+  };
+}
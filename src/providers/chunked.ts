@@ -0,0 +1,140 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { planAudioChunks, writeAudioChunk, type AudioChunk } from "../audio/chunk.js";
+import { readWavPcm16Mono } from "../audio/wav.js";
+import { logger } from "../logger.js";
+import type { Segment, SpeakerProfile, Transcript } from "../types.js";
+import { mapWithConcurrency } from "../util/concurrency.js";
+import type { TranscriptionProvider } from "./types.js";
+
+export interface ChunkedTranscriptionOptions {
+  chunkSec: number;
+  overlapSec?: number;
+  concurrency?: number;
+}
+
+const DEFAULT_OVERLAP_SEC = 5;
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function roundSec(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+// Each chunk keeps only the segments whose midpoint falls in the span it owns, so a sentence spoken in an
+// overlap region is taken from exactly one chunk.
+function shiftOwnedSegments(chunk: AudioChunk, segments: Segment[]): Segment[] {
+  return segments
+    .map((segment) => ({
+      ...segment,
+      startSec: roundSec(Math.max(chunk.startSec, chunk.startSec + segment.startSec)),
+      endSec: roundSec(Math.min(chunk.endSec, chunk.startSec + segment.endSec)),
+    }))
+    .filter((segment) => {
+      const midpoint = (segment.startSec + segment.endSec) / 2;
+      return segment.endSec > segment.startSec && midpoint >= chunk.ownStartSec && midpoint < chunk.ownEndSec;
+    });
+}
+
+export function mergeChunkSegments(chunks: AudioChunk[], results: Segment[][]): Segment[] {
+  const ordered = chunks
+    .flatMap((chunk, index) => shiftOwnedSegments(chunk, results[index]))
+    .sort((a, b) => a.startSec - b.startSec);
+
+  const merged: Segment[] = [];
+  for (const segment of ordered) {
+    const previous = merged[merged.length - 1];
+    if (previous && segment.startSec < previous.endSec) {
+      // Both neighbours heard the same line near a cut: keep the first copy.
+      if (normalizeText(previous.sourceText) === normalizeText(segment.sourceText)) {
+        previous.endSec = Math.max(previous.endSec, segment.endSec);
+        continue;
+      }
+
+      // Otherwise trim the later segment so the timeline stays non-overlapping.
+      if (segment.endSec - previous.endSec < 0.05) {
+        continue;
+      }
+      merged.push({ ...segment, startSec: previous.endSec });
+      continue;
+    }
+
+    merged.push(segment);
+  }
+
+  return merged;
+}
+
+// Chunks label speakers independently; the first chunk that profiles a label wins.
+function mergeChunkSpeakers(results: Transcript[], segments: Segment[]): SpeakerProfile[] {
+  const labels = new Set(segments.map((segment) => segment.speaker));
+  const merged = new Map<string, SpeakerProfile>();
+  for (const profile of results.flatMap((result) => result.speakers)) {
+    if (labels.has(profile.speaker) && !merged.has(profile.speaker)) {
+      merged.set(profile.speaker, profile);
+    }
+  }
+  return [...merged.values()];
+}
+
+// Wraps a transcription provider so long audio is split at silence into overlapping windows that are
+// transcribed separately (optionally in parallel) and stitched back onto the absolute timeline.
+export function createChunkedTranscriptionProvider(
+  inner: TranscriptionProvider,
+  options: ChunkedTranscriptionOptions,
+): TranscriptionProvider {
+  const overlapSec = options.overlapSec ?? DEFAULT_OVERLAP_SEC;
+  const concurrency = options.concurrency ?? 1;
+
+  return {
+    id: `${inner.id}+chunked:${options.chunkSec}s/${overlapSec}s`,
+    version: inner.version,
+    detectLanguage: inner.detectLanguage?.bind(inner),
+    transcribe: async (request) => {
+      const wav = await readWavPcm16Mono(request.audioPath);
+      const chunks = planAudioChunks(wav.samples, wav.sampleRate, { chunkSec: options.chunkSec, overlapSec });
+
+      if (chunks.length === 1) {
+        return inner.transcribe(request);
+      }
+
+      const chunkDir = path.join(path.dirname(request.audioPath), "transcribe_chunks");
+      await fs.mkdir(chunkDir, { recursive: true });
+      logger.info(
+        { chunks: chunks.length, chunkSec: options.chunkSec, overlapSec, concurrency },
+        "Transcribing in chunks",
+      );
+
+      const results = await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+        const baseName = `chunk_${String(chunk.index).padStart(4, "0")}`;
+        const resultPath = path.join(chunkDir, `${baseName}.json`);
+
+        // Chunks finished before an interruption are kept next to the extracted audio and reused on --resume.
+        try {
+          return JSON.parse(await fs.readFile(resultPath, "utf8")) as Transcript;
+        } catch {
+          // Not transcribed yet.
+        }
+
+        const audioPath = path.join(chunkDir, `${baseName}.wav`);
+        await writeAudioChunk(audioPath, wav.samples, wav.sampleRate, chunk);
+        const transcript = await inner.transcribe({ ...request, audioPath });
+        await fs.writeFile(resultPath, JSON.stringify(transcript), "utf8");
+
+        logger.info(
+          { chunk: chunk.index + 1, of: chunks.length, startSec: chunk.startSec, segments: transcript.segments.length },
+          "Chunk transcribed",
+        );
+        return transcript;
+      }, request.signal);
+
+      const segments = mergeChunkSegments(
+        chunks,
+        results.map((result) => result.segments),
+      );
+      return { segments, speakers: mergeChunkSpeakers(results, segments) };
+    },
+  };
+}
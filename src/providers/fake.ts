@@ -0,0 +1,137 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { readWavPcm16Mono, writeWavPcm16Mono } from "../audio/wav.js";
+import type { SegmentDelivery } from "../tts/delivery.js";
+import type { Segment, SpeakerProfile } from "../types.js";
+import type { PipelineProviders } from "./types.js";
+
+const FAKE_TTS_SAMPLE_RATE = 24000;
+const FRAME_SEC = 0.02;
+const VOICED_RMS_THRESHOLD = 500;
+const MAX_GAP_SEC = 0.25;
+const MIN_REGION_SEC = 0.3;
+const FAKE_SPEAKERS: SpeakerProfile[] = [
+  { speaker: "SPEAKER_01", gender: "male", ageRange: "adult", energy: "low", style: "measured narrator" },
+  { speaker: "SPEAKER_02", gender: "female", ageRange: "young", energy: "high", style: "lively interviewer" },
+];
+const FAKE_DELIVERIES: SegmentDelivery[] = [
+  { emotion: "neutral", pace: "normal", volume: "normal" },
+  { emotion: "excited", pace: "fast", volume: "loud" },
+];
+
+export function buildSyntheticSpeechLikeSamples(
+  durationSec: number,
+  frequencyHz: number,
+  sampleRate = FAKE_TTS_SAMPLE_RATE,
+): Int16Array {
+  const total = Math.max(1, Math.round(durationSec * sampleRate));
+  const out = new Int16Array(total);
+
+  for (let i = 0; i < total; i += 1) {
+    const t = i / sampleRate;
+    const carrier = Math.sin(2 * Math.PI * frequencyHz * t);
+    const modulator = 0.5 + 0.5 * Math.sin(2 * Math.PI * 3 * t);
+    out[i] = Math.round(carrier * modulator * 0.3 * 32767);
+  }
+
+  return out;
+}
+
+function voiceFrequency(voiceName: string): number {
+  let hash = 0;
+  for (const char of voiceName) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 997;
+  }
+  return 220 + (hash % 240);
+}
+
+function detectVoicedRegions(samples: Int16Array, sampleRate: number): Array<{ startSec: number; endSec: number }> {
+  const frameSize = Math.max(1, Math.round(FRAME_SEC * sampleRate));
+  const regions: Array<{ startSec: number; endSec: number }> = [];
+
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(samples.length, start + frameSize);
+    let sumSquares = 0;
+    for (let index = start; index < end; index += 1) {
+      sumSquares += samples[index] * samples[index];
+    }
+
+    if (Math.sqrt(sumSquares / (end - start)) < VOICED_RMS_THRESHOLD) {
+      continue;
+    }
+
+    const startSec = start / sampleRate;
+    const endSec = end / sampleRate;
+    const previous = regions[regions.length - 1];
+    if (previous && startSec - previous.endSec <= MAX_GAP_SEC) {
+      previous.endSec = endSec;
+    } else {
+      regions.push({ startSec, endSec });
+    }
+  }
+
+  return regions.filter((region) => region.endSec - region.startSec >= MIN_REGION_SEC);
+}
+
+// Deterministic offline providers: segments follow the energy envelope of the input audio and speech is
+// replaced by tones, so the whole pipeline can run in CI without API keys.
+export function createFakeProviders(): PipelineProviders {
+  return {
+    transcription: {
+      id: "fake",
+      transcribe: async (request) => {
+        const wav = await readWavPcm16Mono(request.audioPath);
+        const durationSec = wav.samples.length / wav.sampleRate;
+        const regions = detectVoicedRegions(wav.samples, wav.sampleRate);
+        const voiced = regions.length > 0 ? regions : [{ startSec: 0, endSec: Math.max(durationSec, 0.1) }];
+
+        const segments = voiced.map((region, index): Segment => ({
+          speaker: index % 2 === 0 ? "SPEAKER_01" : "SPEAKER_02",
+          startSec: Number(region.startSec.toFixed(3)),
+          endSec: Number(region.endSec.toFixed(3)),
+          sourceText: `[${request.sourceLanguage}] segment ${index + 1}`,
+          translatedText: request.targetLanguage ? `[${request.targetLanguage}] segment ${index + 1}` : "",
+          delivery: FAKE_DELIVERIES[index % FAKE_DELIVERIES.length],
+        }));
+
+        return {
+          segments,
+          speakers: FAKE_SPEAKERS.filter((profile) => segments.some((segment) => segment.speaker === profile.speaker)),
+        };
+      },
+      detectLanguage: async () => ({ language: "en", confidence: 1 }),
+    },
+    translation: {
+      id: "fake",
+      translate: async (request) =>
+        request.segments.map((segment) => ({
+          ...segment,
+          translatedText: `[${request.targetLanguage}] ${segment.sourceText}`,
+        })),
+      // Drops trailing words until the text fits, keeping at least one.
+      shorten: async (request) => {
+        const words = request.translatedText.split(/\s+/);
+        while (words.length > 1 && words.join(" ").length > request.maxChars) {
+          words.pop();
+        }
+        return words.join(" ");
+      },
+    },
+    tts: {
+      id: "fake",
+      synthesize: async (request) => {
+        const durationSec = Math.max(0.4, Math.min(request.text.length * 0.06, 6));
+        const samples = buildSyntheticSpeechLikeSamples(durationSec, voiceFrequency(request.voiceName));
+
+        await fs.mkdir(path.dirname(request.outputPath), { recursive: true });
+        await writeWavPcm16Mono(request.outputPath, FAKE_TTS_SAMPLE_RATE, samples);
+
+        return {
+          wavPath: request.outputPath,
+          sampleRate: FAKE_TTS_SAMPLE_RATE,
+          durationSec: samples.length / FAKE_TTS_SAMPLE_RATE,
+        };
+      },
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import type { GoogleGenAI } from "@google/genai";
+import {
+  detectSpokenLanguage,
+  transcribeAndTranslateAudio,
+  shortenTranslation,
+  TRANSCRIPTION_PROMPT_VERSION,
+  transcribeAudio,
+  translateSegments,
+} from "../gemini/transcribeTranslate.js";
+import { synthesizeSpeech } from "../gemini/tts.js";
+import type { RetryOptions } from "../util/retry.js";
+import type { PipelineProviders } from "./types.js";
+
+export function createGeminiProviders(params: {
+  client: GoogleGenAI;
+  transcribeModel: string;
+  ttsModel: string;
+  retry?: RetryOptions;
+  // Retry policy for TTS requests only; defaults to `retry`.
+  ttsRetry?: RetryOptions;
+}): PipelineProviders {
+  const { client, transcribeModel, ttsModel, retry } = params;
+  const ttsRetry = params.ttsRetry ?? retry;
+
+  return {
+    transcription: {
+      id: `gemini:${transcribeModel}`,
+      version: TRANSCRIPTION_PROMPT_VERSION,
+      transcribe: (request) =>
+        request.targetLanguage
+          ? transcribeAndTranslateAudio({
+              client,
+              audioPath: request.audioPath,
+              sourceLanguage: request.sourceLanguage,
+              targetLanguage: request.targetLanguage,
+              model: transcribeModel,
+              retry,
+              signal: request.signal,
+              onUploadProgress: request.onUploadProgress,
+            })
+          : transcribeAudio({
+              client,
+              audioPath: request.audioPath,
+              sourceLanguage: request.sourceLanguage,
+              model: transcribeModel,
+              retry,
+              signal: request.signal,
+              onUploadProgress: request.onUploadProgress,
+            }),
+      detectLanguage: (request) =>
+        detectSpokenLanguage({
+          client,
+          audioPath: request.audioPath,
+          model: transcribeModel,
+          retry,
+          signal: request.signal,
+          onUploadProgress: request.onUploadProgress,
+        }),
+    },
+    translation: {
+      id: `gemini:${transcribeModel}`,
+      translate: (request) =>
+        translateSegments({
+          client,
+          segments: request.segments,
+          sourceLanguage: request.sourceLanguage,
+          targetLanguage: request.targetLanguage,
+          model: transcribeModel,
+          retry,
+          signal: request.signal,
+          glossary: request.glossary,
+        }),
+      shorten: (request) =>
+        shortenTranslation({
+          client,
+          sourceText: request.sourceText,
+          translatedText: request.translatedText,
+          sourceLanguage: request.sourceLanguage,
+          targetLanguage: request.targetLanguage,
+          maxChars: request.maxChars,
+          model: transcribeModel,
+          retry,
+          signal: request.signal,
+          glossary: request.glossary,
+        }),
+    },
+    tts: {
+      id: `gemini:${ttsModel}`,
+      synthesize: (request) =>
+        synthesizeSpeech({
+          client,
+          model: ttsModel,
+          text: request.text,
+          voiceName: request.voiceName,
+          style: request.style,
+          outputPath: request.outputPath,
+          retry: ttsRetry,
+          signal: request.signal,
+        }),
+    },
+  };
+}
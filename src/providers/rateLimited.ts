@@ -0,0 +1,45 @@
+import { logger } from "../logger.js";
+import { createRateLimiter, type RateLimits } from "../util/rateLimit.js";
+import { classifyError } from "../util/retry.js";
+import type { TtsProvider } from "./types.js";
+
+export interface RateLimitedTtsOptions extends RateLimits {
+  // Attempts after a 429 before the error is passed on.
+  maxRetries?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60_000;
+
+// Wraps a TTS provider so concurrent synthesis stays within request and character quotas. A 429 pauses every
+// caller sharing the wrapper for the server's retry hint (or an exponential backoff) before trying again.
+// Output is unchanged, so the id stays that of the inner provider.
+export function createRateLimitedTtsProvider(inner: TtsProvider, options: RateLimitedTtsOptions = {}): TtsProvider {
+  const limiter = createRateLimiter(options);
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  return {
+    id: inner.id,
+    synthesize: async (request) => {
+      const chars = request.text.length + (request.style?.length ?? 0);
+
+      for (let attempt = 0; ; attempt += 1) {
+        await limiter.acquire(chars, request.signal);
+        try {
+          return await inner.synthesize(request);
+        } catch (error) {
+          request.signal?.throwIfAborted();
+          const classification = classifyError(error);
+          if (classification.kind !== "rate_limit" || attempt >= maxRetries) {
+            throw error;
+          }
+
+          const waitMs = classification.retryAfterMs ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+          logger.warn({ attempt: attempt + 1, maxRetries, waitMs }, "TTS rate limited; backing off");
+          limiter.pause(waitMs);
+        }
+      }
+    },
+  };
+}
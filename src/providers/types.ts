@@ -0,0 +1,91 @@
+import type { GlossaryRules } from "../translation/glossary.js";
+import type { Segment, Transcript } from "../types.js";
+
+export interface TranscriptionRequest {
+  audioPath: string;
+  sourceLanguage: string;
+  // When omitted the provider only transcribes and leaves translatedText empty (two-pass mode).
+  targetLanguage?: string;
+  // Aborted when the run is cancelled or a stage times out; providers should stop work and reject.
+  signal?: AbortSignal;
+  // Providers that upload the audio may report how much of it has been sent.
+  onUploadProgress?: (bytesUploaded: number, totalBytes: number) => void;
+}
+
+export interface LanguageDetectionRequest {
+  audioPath: string;
+  signal?: AbortSignal;
+  onUploadProgress?: (bytesUploaded: number, totalBytes: number) => void;
+}
+
+export interface LanguageDetection {
+  // Lower-case ISO 639-1 code where one exists, e.g. "en".
+  language: string;
+  // 0..1, as reported by the provider.
+  confidence: number;
+}
+
+export interface TranscriptionProvider {
+  // Stable identifier recorded in checkpoints, e.g. "gemini:gemini-2.5-flash".
+  readonly id: string;
+  // Changes whenever prompts or output shape change, so cached transcripts from older versions are not reused.
+  readonly version?: string;
+  transcribe(request: TranscriptionRequest): Promise<Transcript>;
+  // Needed for --source-language auto.
+  detectLanguage?(request: LanguageDetectionRequest): Promise<LanguageDetection>;
+}
+
+export interface TranslationRequest {
+  segments: Segment[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  glossary?: GlossaryRules;
+  signal?: AbortSignal;
+}
+
+export interface ShortenRequest {
+  sourceText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Character budget the rewrite has to fit into.
+  maxChars: number;
+  glossary?: GlossaryRules;
+  signal?: AbortSignal;
+}
+
+export interface TranslationProvider {
+  readonly id: string;
+  translate(request: TranslationRequest): Promise<Segment[]>;
+  // Used to rewrite translations whose speech overruns the segment window.
+  shorten?(request: ShortenRequest): Promise<string>;
+}
+
+export interface TtsRequest {
+  text: string;
+  voiceName: string;
+  // Natural-language delivery instruction, e.g. "Say quietly, sounding sad". Engines without style control may
+  // ignore it.
+  style?: string;
+  outputPath: string;
+  signal?: AbortSignal;
+}
+
+export interface TtsClip {
+  wavPath: string;
+  sampleRate: number;
+  durationSec: number;
+}
+
+export interface TtsProvider {
+  readonly id: string;
+  synthesize(request: TtsRequest): Promise<TtsClip>;
+}
+
+export interface PipelineProviders {
+  transcription: TranscriptionProvider;
+  translation: TranslationProvider;
+  tts: TtsProvider;
+}
+
+export type ProviderName = "gemini" | "fake";
@@ -0,0 +1,67 @@
+import path from "node:path";
+import process from "node:process";
+import { Command } from "commander";
+import { collectCacheStats, pruneCache } from "../cache/store.js";
+import { DEFAULT_CACHE_DIR } from "../config.js";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KiB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MiB`;
+}
+
+async function main(): Promise<void> {
+  const program = new Command();
+
+  program
+    .name("voxshift-cache")
+    .description("Inspect and prune the TTS and transcription cache")
+    .option("--cache-dir <path>", "Cache directory", DEFAULT_CACHE_DIR);
+
+  program
+    .command("stats")
+    .description("Show entry counts, sizes and last use per cache section")
+    .action(async () => {
+      const cacheDir = path.resolve(process.cwd(), program.opts<{ cacheDir: string }>().cacheDir);
+      const stats = await collectCacheStats(cacheDir);
+
+      console.log(`Cache: ${cacheDir}`);
+      for (const [namespace, item] of Object.entries(stats)) {
+        const range = item.entries > 0 ? `, last used ${item.oldestUsedAt} .. ${item.newestUsedAt}` : "";
+        console.log(`- ${namespace}: ${item.entries} entries, ${formatBytes(item.bytes)}${range}`);
+      }
+    });
+
+  program
+    .command("prune")
+    .description("Remove entries by last use, oldest first")
+    .option("--max-age-days <days>", "Remove entries not used for this many days")
+    .option("--max-size-mb <mb>", "Then remove least recently used entries until the cache fits")
+    .action(async (options: { maxAgeDays?: string; maxSizeMb?: string }) => {
+      const cacheDir = path.resolve(process.cwd(), program.opts<{ cacheDir: string }>().cacheDir);
+      if (options.maxAgeDays === undefined && options.maxSizeMb === undefined) {
+        throw new Error("Pass --max-age-days and/or --max-size-mb.");
+      }
+
+      const maxAgeDays = options.maxAgeDays !== undefined ? Number(options.maxAgeDays) : undefined;
+      const maxSizeMb = options.maxSizeMb !== undefined ? Number(options.maxSizeMb) : undefined;
+      if ([maxAgeDays, maxSizeMb].some((value) => value !== undefined && !(value >= 0))) {
+        throw new Error("--max-age-days and --max-size-mb must be non-negative numbers.");
+      }
+
+      const result = await pruneCache(cacheDir, {
+        maxAgeDays,
+        maxSizeBytes: maxSizeMb !== undefined ? maxSizeMb * 1024 * 1024 : undefined,
+      });
+      console.log(`Removed ${result.removedEntries} entries (${formatBytes(result.removedBytes)}) from ${cacheDir}`);
+    });
+
+  await program.parseAsync(process.argv);
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Cache command failed: ${message}`);
+  process.exitCode = 1;
+});
@@ -1,10 +1,14 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { Segment } from "../types.js";
-import { writeWavPcm16Mono } from "../audio/wav.js";
 import { composeDubbedTimeline } from "../audio/timeline.js";
+import { readWavPcm16Mono, writeWavPcm16Mono } from "../audio/wav.js";
 import { writeSegmentsJson, writeSrt } from "../output/write.js";
-import type { SynthesizedSegment } from "../gemini/tts.js";
+import { createFakeProviders } from "../providers/fake.js";
+import { buildSpeakerVoiceMap, resolveVoicePool } from "../tts/cast.js";
+import { shortenBudgetChars } from "../tts/fit.js";
+import { synthesizeSegments } from "../tts/synthesize.js";
+import { mapWithConcurrency } from "../util/concurrency.js";
+import { RetryError, withRetry } from "../util/retry.js";
 import { buildSampleSegments, generateFixtureFiles } from "./fixture.js";
 
 function assert(condition: boolean, message: string): void {
@@ -13,47 +17,42 @@ function assert(condition: boolean, message: string): void {
   }
 }
 
-function buildSyntheticSpeechLikeSamples(durationSec: number, frequencyHz: number, sampleRate = 24000): Int16Array {
-  const total = Math.max(1, Math.round(durationSec * sampleRate));
-  const out = new Int16Array(total);
-
-  for (let i = 0; i < total; i += 1) {
-    const t = i / sampleRate;
-    const carrier = Math.sin(2 * Math.PI * frequencyHz * t);
-    const modulator = 0.5 + 0.5 * Math.sin(2 * Math.PI * 3 * t);
-    out[i] = Math.round(carrier * modulator * 0.3 * 32767);
-  }
-
-  return out;
+function tone(durationSec: number, frequencyHz: number, sampleRate: number): Int16Array {
+  return Int16Array.from(
+    { length: Math.round(durationSec * sampleRate) },
+    (_, index) => 8000 * Math.sin((2 * Math.PI * frequencyHz * index) / sampleRate),
+  );
 }
 
-async function buildSyntheticSegmentAudio(outputDir: string, segments: Segment[]): Promise<SynthesizedSegment[]> {
-  await fs.mkdir(outputDir, { recursive: true });
+function rms(samples: Int16Array, fromSec: number, toSec: number, sampleRate: number): number {
+  const part = samples.subarray(Math.round(fromSec * sampleRate), Math.round(toSec * sampleRate));
+  return Math.sqrt(part.reduce((sum, sample) => sum + sample * sample, 0) / Math.max(1, part.length));
+}
 
-  const result: SynthesizedSegment[] = [];
-
-  for (let index = 0; index < segments.length; index += 1) {
-    const segment = segments[index];
-    const toneDuration = Math.max(0.4, Math.min(segment.endSec - segment.startSec - 0.1, 1.2));
-    const toneFrequency = index % 2 === 0 ? 330 : 410;
-    const samples = buildSyntheticSpeechLikeSamples(toneDuration, toneFrequency, 24000);
-    const wavPath = path.join(outputDir, `${String(index).padStart(5, "0")}.wav`);
-
-    await writeWavPcm16Mono(wavPath, 24000, samples);
-
-    result.push({
-      index,
-      speaker: segment.speaker,
-      startSec: segment.startSec,
-      endSec: segment.endSec,
-      translatedText: segment.translatedText,
-      wavPath,
-      sampleRate: 24000,
-      durationSec: samples.length / 24000,
-    });
-  }
+// Two speakers talking at once: A's 2.5 s clip in a 0-3 s window, B's in a 1-4 s window. A must play on under
+// B instead of being handed over, so 1.5-2 s carries both tones and is louder than B alone at 3-3.5 s.
+async function checkOverlappingClips(dir: string): Promise<void> {
+  const sampleRate = 24000;
+  const clipA = path.join(dir, "overlap_a.wav");
+  const clipB = path.join(dir, "overlap_b.wav");
+  await writeWavPcm16Mono(clipA, sampleRate, tone(2.5, 440, sampleRate));
+  await writeWavPcm16Mono(clipB, sampleRate, tone(2.5, 660, sampleRate));
+
+  const common = { speaker: "SPEAKER_01", sourceText: "-", translatedText: "-", voiceName: "Kore", sampleRate };
+  const outputWavPath = path.join(dir, "overlap.wav");
+  await composeDubbedTimeline({
+    segments: [
+      { ...common, index: 0, startSec: 0, endSec: 3, wavPath: clipA, durationSec: 2.5 },
+      { ...common, index: 1, startSec: 1, endSec: 4, wavPath: clipB, durationSec: 2.5 },
+    ],
+    outputWavPath,
+    targetSampleRate: sampleRate,
+  });
 
-  return result;
+  const { samples } = await readWavPcm16Mono(outputWavPath);
+  const both = rms(samples, 1.5, 2, sampleRate);
+  const aloneB = rms(samples, 3, 3.5, sampleRate);
+  assert(both > 1.3 * aloneB, `Smoke failed: overlapping clips were not summed (RMS ${both} vs ${aloneB} alone).`);
 }
 
 async function main(): Promise<void> {
@@ -67,7 +66,12 @@ async function main(): Promise<void> {
   await fs.mkdir(outputDir, { recursive: true });
 
   const segments = buildSampleSegments();
-  const synthesizedSegments = await buildSyntheticSegmentAudio(segmentsDir, segments);
+  const synthesizedSegments = await synthesizeSegments({
+    provider: createFakeProviders().tts,
+    segments,
+    voiceMap: buildSpeakerVoiceMap(segments, { pool: ["Kore", "Puck"] }),
+    outputDir: segmentsDir,
+  });
 
   const dubbedWavPath = path.join(outputDir, "smoke_dubbed.wav");
   await composeDubbedTimeline({
@@ -103,6 +107,52 @@ async function main(): Promise<void> {
   assert(sourceSrtStat.size > 20, "Smoke failed: source SRT output is empty.");
   assert(translatedSrtStat.size > 20, "Smoke failed: translated SRT output is empty.");
 
+  await checkOverlappingClips(outputDir);
+
+  // --voice-a Aoede is kept for a female speaker even though the catalog has a closer match for her profile.
+  const explicitVoice = buildSpeakerVoiceMap(segments.slice(0, 1), {
+    pool: resolveVoicePool({ voiceA: "Aoede" }),
+    preferred: ["Aoede"],
+    speakers: [{ speaker: "SPEAKER_01", gender: "female", ageRange: "adult", energy: "medium" }],
+  });
+  assert(
+    explicitVoice.SPEAKER_01 === "Aoede",
+    `Smoke failed: --voice-a Aoede was cast as ${explicitVoice.SPEAKER_01}.`,
+  );
+
+  // 100 characters spoken in 4 s into a 2 s window: the timeline can compress to 0.85, so 2 / 0.85 s of speech
+  // fits, i.e. 58.8 characters, and 52 with the 0.9 headroom.
+  const budget = shortenBudgetChars(100, 4, 2, 0.85);
+  assert(budget === 52, `Smoke failed: rewrite budget is ${budget} characters, expected 52.`);
+  assert(shortenBudgetChars(100, 4, 2, 1) === 45, "Smoke failed: rewrite budget without stretching is not 45.");
+
+  // The first item fails while the second is still running; the worker that ran the second stops there.
+  const started: number[] = [];
+  const failure = await mapWithConcurrency([0, 1, 2, 3], 2, async (item) => {
+    started.push(item);
+    await new Promise((resolve) => setTimeout(resolve, item === 0 ? 0 : 20));
+    if (item === 0) {
+      throw new Error("item 0 failed");
+    }
+  }).catch((error: unknown) => error);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert(failure instanceof Error, "Smoke failed: mapWithConcurrency did not reject on a worker failure.");
+  assert(started.join(",") === "0,1", `Smoke failed: mapWithConcurrency started items ${started} after a failure.`);
+
+  // A kind passed through is thrown on the first failure, so only the caller's own retry loop waits on it.
+  let calls = 0;
+  const rateLimited = await withRetry(
+    async () => {
+      calls += 1;
+      throw new Error("got status: 429 Too Many Requests. RESOURCE_EXHAUSTED");
+    },
+    { passThroughKinds: ["rate_limit"] },
+  ).catch((error: unknown) => error);
+  assert(
+    rateLimited instanceof RetryError && rateLimited.kind === "rate_limit" && calls === 1,
+    `Smoke failed: a passed-through rate limit was tried ${calls} times.`,
+  );
+
   console.log("Smoke test passed.");
   console.log(`- ${dubbedWavPath}`);
   console.log(`- ${segmentsJsonPath}`);
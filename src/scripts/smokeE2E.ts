@@ -2,6 +2,7 @@ import "dotenv/config";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { resolveRuntimeConfig } from "../config.js";
+import type { CassetteMode } from "../gemini/cassette.js";
 import { runPipeline } from "../pipeline.js";
 import { generateFixtureFiles } from "./fixture.js";
 
@@ -17,7 +18,14 @@ async function main(): Promise<void> {
   const speechFixturePath = path.join(projectRoot, "fixtures", "sample_speech_12s.wav");
   await fs.access(speechFixturePath);
 
-  if (!process.env.GOOGLE_API_KEY) {
+  // SMOKE_CASSETTE=record captures the Gemini responses; SMOKE_CASSETTE=replay re-runs them offline.
+  const cassetteEnv = process.env.SMOKE_CASSETTE || undefined;
+  if (cassetteEnv && cassetteEnv !== "record" && cassetteEnv !== "replay") {
+    throw new Error(`SMOKE_CASSETTE must be "record" or "replay", got "${cassetteEnv}".`);
+  }
+  const cassetteMode = cassetteEnv as CassetteMode | undefined;
+
+  if (!process.env.GOOGLE_API_KEY && cassetteMode !== "replay") {
     throw new Error("GOOGLE_API_KEY is not set. Add it to nodejs/.env or environment before running smoke:e2e.");
   }
 
@@ -35,6 +43,8 @@ async function main(): Promise<void> {
       voiceA: "Kore",
       voiceB: "Puck",
       keepArtifacts: true,
+      cassetteDir: cassetteMode ? path.join("fixtures", "cassettes", "smoke-e2e") : undefined,
+      cassetteMode,
     },
     projectRoot,
   );
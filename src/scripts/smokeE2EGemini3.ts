@@ -4,6 +4,7 @@ import path from "node:path";
 import { createGeminiClient } from "../gemini/client.js";
 import { resolveRuntimeConfig } from "../config.js";
 import { runPipeline } from "../pipeline.js";
+import { withRetry } from "../util/retry.js";
 import { generateFixtureFiles } from "./fixture.js";
 
 function assert(condition: boolean, message: string): void {
@@ -12,23 +13,6 @@ function assert(condition: boolean, message: string): void {
   }
 }
 
-async function withRetry<T>(operation: () => Promise<T>, maxAttempts = 3): Promise<T> {
-  let lastError: unknown;
-  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error;
-      if (attempt === maxAttempts) {
-        break;
-      }
-      const waitMs = 700 * 2 ** (attempt - 1);
-      await new Promise((resolve) => setTimeout(resolve, waitMs));
-    }
-  }
-  throw lastError;
-}
-
 function normalizeModelName(name: string): string {
   return name.startsWith("models/") ? name.slice("models/".length) : name;
 }
@@ -132,7 +116,7 @@ async function main(): Promise<void> {
     projectRoot,
   );
 
-  const result = await withRetry(async () => runPipeline(runtimeConfig), 2);
+  const result = await withRetry(async () => runPipeline(runtimeConfig), { maxAttempts: 2, label: "smoke pipeline" });
 
   const sourceSrtPath = path.join(outputDir, "sample_speech_12s_es.en.srt");
   const translatedSrtPath = path.join(outputDir, "sample_speech_12s_es.es.srt");
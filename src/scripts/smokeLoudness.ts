@@ -0,0 +1,93 @@
+import {
+  createLoudnessNormalizer,
+  dbToGain,
+  measureIntegratedLoudness,
+  measureTruePeak,
+  type LoudnessTarget,
+} from "../audio/loudness.js";
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const SAMPLE_RATES = [24000, 48000];
+const SIGNAL_SEC = 5;
+
+function sine(sampleRate: number, frequency: number, amplitude: number, phase = 0): Float32Array {
+  const samples = new Float32Array(Math.round(sampleRate * SIGNAL_SEC));
+  for (let index = 0; index < samples.length; index += 1) {
+    samples[index] = amplitude * Math.sin((2 * Math.PI * frequency * index) / sampleRate + phase);
+  }
+  return samples;
+}
+
+function normalize(samples: Float32Array, sampleRate: number, target: LoudnessTarget): Float32Array {
+  const normalizer = createLoudnessNormalizer(sampleRate, target, measureIntegratedLoudness(samples, sampleRate));
+  const head = normalizer.process(samples);
+  const { tail } = normalizer.finish();
+  const output = new Float32Array(head.length + tail.length);
+  output.set(head);
+  output.set(tail, head.length);
+  return output;
+}
+
+// BS.1770 calibration: a 1 kHz sine at -20 dBFS peak measures -23.01 LUFS (its RMS level, -3.01 dB below the
+// peak; the K-weighting is level at 1 kHz).
+function checkMeter(sampleRate: number): string {
+  const measured = measureIntegratedLoudness(sine(sampleRate, 1000, 0.1), sampleRate) ?? -Infinity;
+  assert(Math.abs(measured + 23.01) <= 0.05, `${sampleRate} Hz: 1 kHz at -20 dBFS measured ${measured} LUFS.`);
+  return `${sampleRate} Hz: 1 kHz at -20 dBFS measures ${measured.toFixed(2)} LUFS`;
+}
+
+// A tone normalized without hitting the ceiling lands on the target.
+function checkNormalizer(sampleRate: number): string {
+  const target = { integratedLufs: -16, truePeakDbtp: -1 };
+  const output = normalize(sine(sampleRate, 1000, 0.1), sampleRate, target);
+  const measured = measureIntegratedLoudness(output, sampleRate) ?? -Infinity;
+  assert(Math.abs(measured - target.integratedLufs) <= 0.05, `${sampleRate} Hz: normalized to ${measured} LUFS.`);
+  return `${sampleRate} Hz: normalized to ${measured.toFixed(2)} LUFS (target -16)`;
+}
+
+// A tone with short bursts whose samples sit at 0.707 of their peak (a quarter of the sample rate at 45 degrees),
+// so the true peak lies between samples. Normalizing to -14 LUFS pushes the bursts far past the ceiling.
+function checkLimiter(sampleRate: number): string {
+  const ceilingDbtp = -1;
+  const input = sine(sampleRate, 1000, 0.1);
+  const burst = sine(sampleRate, sampleRate / 4, 0.9, Math.PI / 4);
+  const burstSamples = Math.round(0.01 * sampleRate);
+  for (let start = sampleRate / 2; start + burstSamples < input.length; start += sampleRate) {
+    input.set(burst.subarray(start, start + burstSamples), start);
+  }
+
+  const output = normalize(input, sampleRate, { integratedLufs: -14, truePeakDbtp: ceilingDbtp });
+  const gainDb = -14 - (measureIntegratedLoudness(input, sampleRate) ?? 0);
+  const unlimited = (measureTruePeak(input, sampleRate) ?? 0) + gainDb;
+  assert(unlimited > ceilingDbtp + 3, `${sampleRate} Hz: bursts would only reach ${unlimited} dBTP unlimited.`);
+  const truePeak = measureTruePeak(output, sampleRate) ?? -Infinity;
+  const samplePeak = output.reduce((peak, sample) => Math.max(peak, Math.abs(sample)), 0);
+  assert(truePeak <= ceilingDbtp + 0.01, `${sampleRate} Hz: limited output peaks at ${truePeak} dBTP.`);
+  assert(samplePeak <= dbToGain(ceilingDbtp), `${sampleRate} Hz: limited output has a sample at ${samplePeak}.`);
+  return `${sampleRate} Hz: ${unlimited.toFixed(2)} dBTP limited to ${truePeak.toFixed(2)} (ceiling ${ceilingDbtp})`;
+}
+
+function main(): void {
+  const lines: string[] = [];
+  for (const sampleRate of SAMPLE_RATES) {
+    lines.push(checkMeter(sampleRate), checkNormalizer(sampleRate), checkLimiter(sampleRate));
+  }
+
+  console.log("Loudness smoke test passed.");
+  for (const line of lines) {
+    console.log(`- ${line}`);
+  }
+}
+
+try {
+  main();
+} catch (error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Loudness smoke test failed: ${message}`);
+  process.exitCode = 1;
+}
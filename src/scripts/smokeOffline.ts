@@ -0,0 +1,118 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveRuntimeConfig } from "../config.js";
+import { readSegmentsJson } from "../output/read.js";
+import { rerenderFromSegmentsJson, runPipeline } from "../pipeline.js";
+import { createFakeProviders } from "../providers/fake.js";
+import type { TtsProvider } from "../providers/types.js";
+import { generateFixtureFiles } from "./fixture.js";
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function main(): Promise<void> {
+  const projectRoot = path.resolve(process.cwd());
+  await generateFixtureFiles(projectRoot);
+
+  const outputDir = path.join(projectRoot, "artifacts", "smoke-offline", "output");
+  await fs.rm(outputDir, { recursive: true, force: true });
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const runtimeConfig = resolveRuntimeConfig(
+    {
+      input: "fixtures/sample_input.wav",
+      sourceLanguage: "en",
+      targetLanguage: "es,fr",
+      output: path.join(outputDir, "sample_input_{lang}.wav"),
+      outputJson: path.join(outputDir, "sample_input_{lang}_segments.json"),
+      modelTier: "flash",
+      voiceA: "Kore",
+      voiceB: "Puck",
+      keepArtifacts: false,
+      provider: "fake",
+      saveClips: true,
+    },
+    projectRoot,
+  );
+
+  const result = await runPipeline(runtimeConfig);
+
+  assert(result.languages.length === 2, "Offline smoke failed: expected one result per target language.");
+  assert(result.segments.length >= 2, "Offline smoke failed: expected at least 2 segments from the fixture tones.");
+
+  for (const language of result.languages) {
+    const [audioStat, jsonStat] = await Promise.all([fs.stat(language.outputPath), fs.stat(language.outputJsonPath)]);
+    assert(audioStat.size > 44, `Offline smoke failed: ${language.targetLanguage} output audio is empty.`);
+    assert(jsonStat.size > 20, `Offline smoke failed: ${language.targetLanguage} output JSON is empty.`);
+  }
+
+  // Re-render the Spanish file after an editor inserts a long line in front. Both existing lines moved up one
+  // index but are unchanged, so only the new one is synthesized, and it is kept verbatim though it overruns.
+  const spanish = result.languages.find((language) => language.targetLanguage === "es");
+  if (!spanish) {
+    throw new Error("Offline smoke failed: no Spanish result.");
+  }
+  const edited = await readSegmentsJson(spanish.outputJsonPath);
+  const insertedText = "[es] a hand-written line that is far too long for its short window";
+  edited.segments.unshift({
+    ...edited.segments[0],
+    startSec: 0,
+    endSec: 0.4,
+    translatedText: insertedText,
+    fit: undefined,
+  });
+  await fs.writeFile(spanish.outputJsonPath, JSON.stringify(edited, null, 2), "utf8");
+
+  const fakeTts = createFakeProviders().tts;
+  const synthesizedTexts: string[] = [];
+  const countingTts: TtsProvider = {
+    id: fakeTts.id,
+    synthesize: (request) => {
+      synthesizedTexts.push(request.text);
+      return fakeTts.synthesize(request);
+    },
+  };
+  const rerenderConfig = resolveRuntimeConfig(
+    {
+      input: "fixtures/sample_input.wav",
+      sourceLanguage: "en",
+      targetLanguage: "es",
+      output: spanish.outputPath,
+      outputJson: spanish.outputJsonPath,
+      modelTier: "flash",
+      voiceA: "Kore",
+      voiceB: "Puck",
+      keepArtifacts: false,
+      provider: "fake",
+    },
+    projectRoot,
+  );
+  const rerendered = await rerenderFromSegmentsJson(rerenderConfig, spanish.outputJsonPath, {
+    providers: { tts: countingTts },
+  });
+
+  assert(
+    synthesizedTexts.length === 1 && synthesizedTexts[0] === insertedText,
+    `Offline smoke failed: re-render synthesized ${JSON.stringify(synthesizedTexts)} instead of the inserted line.`,
+  );
+  const [inserted] = rerendered.languages[0].segments;
+  assert(inserted.translatedText === insertedText, "Offline smoke failed: re-render rewrote the edited line.");
+  assert(inserted.fit?.status === "overrun", `Offline smoke failed: inserted line fit is ${inserted.fit?.status}.`);
+
+  console.log("Offline smoke test passed.");
+  for (const language of result.languages) {
+    console.log(`- ${language.outputPath}`);
+    console.log(`- ${language.outputJsonPath}`);
+  }
+  console.log(`- segments: ${result.segments.length}`);
+  console.log(`- re-render after inserting a segment: 1 clip synthesized, ${edited.segments.length - 1} reused`);
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Offline smoke test failed: ${message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,101 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveRuntimeConfig } from "../config.js";
+import type { CassetteMode } from "../gemini/cassette.js";
+import { runPipeline } from "../pipeline.js";
+import { generateFixtureFiles } from "./fixture.js";
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const CASSETTE_DIR = path.join("fixtures", "cassettes", "smoke-replay");
+
+// Runs the full pipeline with the Gemini providers on the sample fixture, replayed from the committed cassette,
+// so request shapes, response parsing, the fit loop, mixing and mux are checked without an API key. The cache
+// is off so every request reaches the cassette. SMOKE_CASSETTE=record re-records it against the live API.
+async function main(): Promise<void> {
+  const projectRoot = path.resolve(process.cwd());
+  await generateFixtureFiles(projectRoot);
+
+  const cassetteEnv = process.env.SMOKE_CASSETTE || "replay";
+  if (cassetteEnv !== "record" && cassetteEnv !== "replay") {
+    throw new Error(`SMOKE_CASSETTE must be "record" or "replay", got "${cassetteEnv}".`);
+  }
+  const mode: CassetteMode = cassetteEnv;
+  if (mode === "record" && !process.env.GOOGLE_API_KEY) {
+    throw new Error("GOOGLE_API_KEY is not set. Recording the replay cassette calls the Gemini API.");
+  }
+
+  // A fresh recording replaces the old one, so entries for requests that changed do not pile up.
+  if (mode === "record") {
+    await fs.rm(path.join(projectRoot, CASSETTE_DIR), { recursive: true, force: true });
+  }
+
+  const outputDir = path.join(projectRoot, "artifacts", "smoke-replay", "output");
+  await fs.rm(outputDir, { recursive: true, force: true });
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const runtimeConfig = resolveRuntimeConfig(
+    {
+      input: "fixtures/sample_input.wav",
+      sourceLanguage: "en",
+      targetLanguage: "es",
+      output: path.join(outputDir, "sample_input_es.wav"),
+      outputJson: path.join(outputDir, "sample_input_es_segments.json"),
+      modelTier: "flash",
+      voiceA: "Kore",
+      voiceB: "Puck",
+      keepArtifacts: false,
+      keepBackground: true,
+      noCache: true,
+      cassetteDir: CASSETTE_DIR,
+      cassetteMode: mode,
+    },
+    projectRoot,
+  );
+
+  const result = await runPipeline(runtimeConfig);
+
+  const sourceSrtPath = path.join(outputDir, "sample_input_es.en.srt");
+  const translatedSrtPath = path.join(outputDir, "sample_input_es.es.srt");
+  const [audioStat, jsonStat, sourceSrtStat, translatedSrtStat] = await Promise.all([
+    fs.stat(result.outputPath),
+    fs.stat(result.outputJsonPath),
+    fs.stat(sourceSrtPath),
+    fs.stat(translatedSrtPath),
+  ]);
+
+  assert(audioStat.size > 44, "Replay smoke failed: output audio is empty.");
+  assert(jsonStat.size > 20, "Replay smoke failed: output JSON is empty.");
+  assert(sourceSrtStat.size > 20, "Replay smoke failed: source SRT is empty.");
+  assert(translatedSrtStat.size > 20, "Replay smoke failed: translated SRT is empty.");
+  assert(result.segments.length >= 2, `Replay smoke failed: expected 2+ segments, got ${result.segments.length}.`);
+  assert(
+    result.segments.every((segment) => segment.translatedText.length > 0 && segment.fit !== undefined),
+    "Replay smoke failed: a segment came back without a translation or fit report.",
+  );
+  // The recorded clips overrun their windows, so the rewrite requests of the fit loop are replayed as well.
+  assert(
+    result.segments.some((segment) => segment.fit?.status === "rewritten"),
+    "Replay smoke failed: no segment went through the fit loop.",
+  );
+
+  console.log(`Replay smoke test passed (${mode}).`);
+  console.log(`- ${result.outputPath}`);
+  console.log(`- ${result.outputJsonPath}`);
+  console.log(`- ${sourceSrtPath}`);
+  console.log(`- ${translatedSrtPath}`);
+  console.log(
+    `- segments: ${result.segments.length}, ` +
+      `rewritten: ${result.segments.filter((segment) => segment.fit?.status === "rewritten").length}`,
+  );
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Replay smoke test failed: ${message}`);
+  process.exitCode = 1;
+});
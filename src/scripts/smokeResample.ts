@@ -0,0 +1,131 @@
+import { RESAMPLE_QUALITIES, resample, type ResampleQuality } from "../audio/resample.js";
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+interface QualityExpectation {
+  // Highest tone checked for flatness, as a fraction of the lower rate's Nyquist frequency.
+  passbandEdge: number;
+  maxRippleDb: number;
+  minRejectionDb: number;
+}
+
+const EXPECTATIONS: Record<ResampleQuality, QualityExpectation> = {
+  fast: { passbandEdge: 0.6, maxRippleDb: 0.05, minRejectionDb: 60 },
+  standard: { passbandEdge: 0.75, maxRippleDb: 0.01, minRejectionDb: 90 },
+  high: { passbandEdge: 0.85, maxRippleDb: 0.01, minRejectionDb: 110 },
+};
+
+const RATE_PAIRS: Array<[number, number]> = [
+  [24000, 48000],
+  [48000, 24000],
+  [44100, 24000],
+  [24000, 44100],
+];
+
+const TONE_AMPLITUDE = 0.5;
+const TONE_SEC = 1;
+const PASSBAND_TONES = 12;
+
+function tone(sampleRate: number, frequency: number): Float32Array {
+  const samples = new Float32Array(Math.round(sampleRate * TONE_SEC));
+  for (let index = 0; index < samples.length; index += 1) {
+    samples[index] = TONE_AMPLITUDE * Math.sin((2 * Math.PI * frequency * index) / sampleRate);
+  }
+  return samples;
+}
+
+// Level of one frequency relative to the test tone, in dB, from a Hann-windowed DFT bin over the middle half of
+// the signal (the ends are skipped so the kernel's edge effects do not count).
+function toneLevelDb(samples: Float32Array, sampleRate: number, frequency: number): number {
+  const start = Math.floor(samples.length / 4);
+  const end = Math.floor((samples.length * 3) / 4);
+  let real = 0;
+  let imaginary = 0;
+  let windowSum = 0;
+  for (let index = start; index < end; index += 1) {
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (index - start)) / (end - start));
+    const angle = (2 * Math.PI * frequency * index) / sampleRate;
+    real += samples[index] * window * Math.cos(angle);
+    imaginary += samples[index] * window * Math.sin(angle);
+    windowSum += window;
+  }
+  return 20 * Math.log10((2 * Math.hypot(real, imaginary)) / windowSum / TONE_AMPLITUDE);
+}
+
+// Overall level of the middle half relative to the test tone, in dB; used where any output at all is aliasing.
+function rmsLevelDb(samples: Float32Array): number {
+  const start = Math.floor(samples.length / 4);
+  const end = Math.floor((samples.length * 3) / 4);
+  let sum = 0;
+  for (let index = start; index < end; index += 1) {
+    sum += samples[index] * samples[index];
+  }
+  return 10 * Math.log10(sum / (end - start) / (TONE_AMPLITUDE * TONE_AMPLITUDE * 0.5));
+}
+
+function checkPair(quality: ResampleQuality, sourceRate: number, targetRate: number): string {
+  const expectation = EXPECTATIONS[quality];
+  const nyquist = Math.min(sourceRate, targetRate) / 2;
+
+  // Passband flatness: tones up to the passband edge come through at their level.
+  let rippleDb = 0;
+  for (let step = 0; step <= PASSBAND_TONES; step += 1) {
+    const frequency = 100 + ((expectation.passbandEdge * nyquist - 100) * step) / PASSBAND_TONES;
+    const output = resample(tone(sourceRate, frequency), sourceRate, targetRate, quality);
+    rippleDb = Math.max(rippleDb, Math.abs(toneLevelDb(output, targetRate, frequency)));
+  }
+
+  // Stopband rejection: downsampling must remove tones above the new Nyquist frequency instead of folding them
+  // back, and upsampling must not leave images of in-band tones mirrored around the old one.
+  let leakDb = -Infinity;
+  if (targetRate < sourceRate) {
+    for (const fraction of [1.15, 1.5, 1.95]) {
+      const frequency = Math.min(fraction * nyquist, 0.99 * (sourceRate / 2));
+      const output = resample(tone(sourceRate, frequency), sourceRate, targetRate, quality);
+      leakDb = Math.max(leakDb, rmsLevelDb(output));
+    }
+  } else {
+    for (const fraction of [0.2, 0.5, 0.8]) {
+      const frequency = fraction * nyquist;
+      const output = resample(tone(sourceRate, frequency), sourceRate, targetRate, quality);
+      leakDb = Math.max(leakDb, toneLevelDb(output, targetRate, sourceRate - frequency));
+    }
+  }
+
+  const label = `${quality} ${sourceRate} -> ${targetRate} Hz`;
+  assert(
+    rippleDb <= expectation.maxRippleDb,
+    `${label}: passband deviates by ${rippleDb.toFixed(3)} dB (limit ${expectation.maxRippleDb} dB).`,
+  );
+  assert(
+    -leakDb >= expectation.minRejectionDb,
+    `${label}: stopband rejection is ${(-leakDb).toFixed(1)} dB (need ${expectation.minRejectionDb} dB).`,
+  );
+  return `${label}: passband ±${rippleDb.toFixed(3)} dB, stopband -${(-leakDb).toFixed(1)} dB`;
+}
+
+function main(): void {
+  const lines: string[] = [];
+  for (const quality of Object.keys(RESAMPLE_QUALITIES) as ResampleQuality[]) {
+    for (const [sourceRate, targetRate] of RATE_PAIRS) {
+      lines.push(checkPair(quality, sourceRate, targetRate));
+    }
+  }
+
+  console.log("Resampler smoke test passed.");
+  for (const line of lines) {
+    console.log(`- ${line}`);
+  }
+}
+
+try {
+  main();
+} catch (error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Resampler smoke test failed: ${message}`);
+  process.exitCode = 1;
+}
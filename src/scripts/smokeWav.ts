@@ -0,0 +1,167 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  WAV_SAMPLE_FORMATS,
+  pcm16ToWavBuffer,
+  readWav,
+  readWavPcm16Mono,
+  writeWav,
+  type WavSampleFormat,
+} from "../audio/wav.js";
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Largest round-trip error allowed per format: half a quantization step, or float32 rounding.
+const TOLERANCE: Record<WavSampleFormat, number> = {
+  pcm8: 0.5 / 128,
+  pcm16: 0.5 / 32768,
+  pcm24: 0.5 / 8388608,
+  pcm32: 1e-7,
+  float32: 1e-7,
+};
+
+const SAMPLE_RATE = 48000;
+const CHANNEL_COUNTS = [1, 2, 6];
+// Odd, so 8-bit mono and 24-bit odd-channel data chunks need a pad byte.
+const FRAME_COUNT = 4801;
+
+// A different tone per channel, so swapped or mixed-up channels show up as errors.
+function testSignal(channels: number): Float32Array[] {
+  return Array.from({ length: channels }, (_, channel) => {
+    const samples = new Float32Array(FRAME_COUNT);
+    for (let index = 0; index < samples.length; index += 1) {
+      samples[index] = 0.8 * Math.sin((2 * Math.PI * 440 * (channel + 1) * index) / SAMPLE_RATE);
+    }
+    return samples;
+  });
+}
+
+function maxError(expected: Float32Array[], actual: Float32Array[]): number {
+  let error = 0;
+  expected.forEach((samples, channel) => {
+    for (let index = 0; index < samples.length; index += 1) {
+      error = Math.max(error, Math.abs(samples[index] - actual[channel][index]));
+    }
+  });
+  return error;
+}
+
+async function checkRoundTrip(dir: string, sampleFormat: WavSampleFormat, channels: number): Promise<string> {
+  const label = `${sampleFormat} x${channels}`;
+  const filePath = path.join(dir, `${sampleFormat}_${channels}ch.wav`);
+  const channelData = testSignal(channels);
+  await writeWav(filePath, { sampleRate: SAMPLE_RATE, channels, sampleFormat, channelData });
+
+  const bytes = await fs.readFile(filePath);
+  const formatTag = bytes.readUInt16LE(12 + 8 + 28 + 8);
+  const expectExtensible = channels > 2 || !["pcm8", "pcm16"].includes(sampleFormat);
+  assert(bytes.length % 2 === 0, `${label}: file length ${bytes.length} is odd (missing pad byte).`);
+  assert(
+    (formatTag === 0xfffe) === expectExtensible,
+    `${label}: format tag 0x${formatTag.toString(16)} (extensible expected: ${expectExtensible}).`,
+  );
+
+  const decoded = await readWav(filePath);
+  assert(decoded.sampleRate === SAMPLE_RATE, `${label}: read back ${decoded.sampleRate} Hz.`);
+  assert(decoded.sampleFormat === sampleFormat, `${label}: read back as ${decoded.sampleFormat}.`);
+  assert(decoded.channelData.length === channels, `${label}: read back ${decoded.channelData.length} channel(s).`);
+  assert(decoded.channelData[0].length === FRAME_COUNT, `${label}: read back ${decoded.channelData[0].length} frames.`);
+  const error = maxError(channelData, decoded.channelData);
+  assert(error <= TOLERANCE[sampleFormat], `${label}: round-trip error ${error.toExponential(2)}.`);
+  return `${label}: ${bytes.length} bytes, max error ${error.toExponential(2)}`;
+}
+
+// Hand-built files for what the writer does not produce on its own: an odd-sized chunk before fmt, and RF64
+// with the data size only in ds64.
+function chunk(chunkId: string, body: Buffer, declaredSize = body.length): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(chunkId, 0, "ascii");
+  header.writeUInt32LE(declaredSize, 4);
+  return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+}
+
+function pcm16Chunks(samples: number[]): { fmt: Buffer; data: Buffer } {
+  const wav = pcm16ToWavBuffer(Buffer.from(new Int16Array(samples).buffer), SAMPLE_RATE, 2);
+  return { fmt: wav.subarray(12, 36), data: wav.subarray(44) };
+}
+
+async function checkContainers(dir: string): Promise<string[]> {
+  const samples = [1000, -3000, 2000, 4000, -32768, 32767];
+  const { fmt, data } = pcm16Chunks(samples);
+
+  const oddPath = path.join(dir, "odd_chunk.wav");
+  const list = chunk("LIST", Buffer.from("INFOISFT\x05\x00\x00\x00test\x00", "binary"));
+  const oddBody = Buffer.concat([Buffer.from("WAVE"), list, fmt, chunk("data", data)]);
+  await fs.writeFile(oddPath, chunk("RIFF", oddBody));
+  const odd = await readWav(oddPath);
+  assert(odd.channelData[1][2] === 32767 / 32768, `odd-sized chunk: right channel read as ${odd.channelData[1]}.`);
+
+  const rf64Path = path.join(dir, "rf64.wav");
+  const ds64 = Buffer.alloc(28);
+  ds64.writeBigUInt64LE(BigInt(4 + 36 + 24 + 8 + data.length), 0);
+  ds64.writeBigUInt64LE(BigInt(data.length), 8);
+  ds64.writeBigUInt64LE(BigInt(samples.length / 2), 16);
+  const rf64Body = Buffer.concat([Buffer.from("WAVE"), chunk("ds64", ds64), fmt, chunk("data", data, 0xffffffff)]);
+  await fs.writeFile(rf64Path, Buffer.concat([chunk("RF64", Buffer.alloc(0), 0xffffffff), rf64Body]));
+  const rf64 = await readWav(rf64Path);
+  assert(rf64.channelData[0].length === 3, `RF64: read back ${rf64.channelData[0].length} frames.`);
+  assert(rf64.channelData[0][2] === -1, `RF64: left channel read as ${rf64.channelData[0]}.`);
+
+  const mono = await readWavPcm16Mono(rf64Path);
+  assert(
+    mono.samples.join(",") === "-1000,3000,0",
+    `16-bit mono downmix of a stereo file read as ${Array.from(mono.samples)}.`,
+  );
+
+  return ["odd-sized LIST chunk before fmt", "RF64 with ds64 sizes", "16-bit mono downmix"];
+}
+
+// The in-memory writer used for raw TTS PCM, which switches to an extensible header above two channels.
+async function checkPcm16Buffer(dir: string, channels: number): Promise<string> {
+  const label = `pcm16ToWavBuffer x${channels}`;
+  const filePath = path.join(dir, `buffer_${channels}ch.wav`);
+  const interleaved = Int16Array.from({ length: 5 * channels }, (_, index) => (index + 1) * (index % 2 ? -100 : 100));
+  const wav = pcm16ToWavBuffer(Buffer.from(interleaved.buffer), SAMPLE_RATE, channels);
+  await fs.writeFile(filePath, wav);
+
+  assert(wav.readUInt32LE(4) === wav.length - 8, `${label}: RIFF size ${wav.readUInt32LE(4)} for ${wav.length} bytes.`);
+  const decoded = await readWav(filePath);
+  assert(decoded.channelData.length === channels, `${label}: read back ${decoded.channelData.length} channel(s).`);
+  interleaved.forEach((sample, index) => {
+    const actual = decoded.channelData[index % channels][Math.floor(index / channels)];
+    assert(actual === sample / 32768, `${label}: sample ${index} read back as ${actual * 32768}, expected ${sample}.`);
+  });
+  return `${label}: ${wav.length} bytes`;
+}
+
+async function main(): Promise<void> {
+  const dir = path.join(process.cwd(), "artifacts", "smoke-wav");
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.mkdir(dir, { recursive: true });
+
+  const lines: string[] = [];
+  for (const sampleFormat of WAV_SAMPLE_FORMATS) {
+    for (const channels of CHANNEL_COUNTS) {
+      lines.push(await checkRoundTrip(dir, sampleFormat, channels));
+    }
+  }
+  for (const channels of CHANNEL_COUNTS) {
+    lines.push(await checkPcm16Buffer(dir, channels));
+  }
+  lines.push(...(await checkContainers(dir)));
+
+  console.log("WAV codec smoke test passed.");
+  for (const line of lines) {
+    console.log(`- ${line}`);
+  }
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`WAV codec smoke test failed: ${message}`);
+  process.exitCode = 1;
+});
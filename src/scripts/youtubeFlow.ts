@@ -6,7 +6,7 @@ import { createHash } from "node:crypto";
 import { createReadStream } from "node:fs";
 import { Command } from "commander";
 import { z } from "zod";
-import { parseCliOptions, resolveRuntimeConfig } from "../config.js";
+import { AUTO_SOURCE_LANGUAGE, parseCliOptions, parseTargetLanguages, resolveRuntimeConfig } from "../config.js";
 import { runPipeline } from "../pipeline.js";
 import { loadYouTubePolicy } from "../youtube/policy.js";
 import { runYouTubeIntake } from "../youtube/intake.js";
@@ -220,7 +220,7 @@ async function main(): Promise<void> {
     .option("--source-url <url>", "Optional source YouTube URL used for intake checks")
     .option("--input <path>", "Local media file used as pipeline input (pipeline mode)")
     .option("--upload-file <path>", "Existing local video file to upload (upload-only mode)")
-    .option("--source-language <code>", "Source language code (pipeline mode)")
+    .option("--source-language <code>", "Source language code, or auto (pipeline mode; defaults to the video's audio language, else auto)")
     .option("--target-language <code>", "Target language code")
     .option("--output <path>", "Output media path (pipeline mode)")
     .option("--output-json <path>", "Output JSON sidecar path (pipeline mode)")
@@ -313,6 +313,7 @@ async function main(): Promise<void> {
   let sourceChannelTitle: string | null = null;
   let sourceVideoUrl: string | null = null;
   let sourceTitle: string | null = ensureString(raw.sourceTitle) ?? null;
+  let sourceAudioLanguage: string | null = null;
 
   if (raw.sourceUrl) {
     const dataApiKey = process.env.YOUTUBE_DATA_API_KEY;
@@ -340,6 +341,7 @@ async function main(): Promise<void> {
     sourceChannelTitle = intake.result.video.channelTitle;
     sourceVideoUrl = intake.result.sourceUrl;
     sourceTitle = intake.result.video.title;
+    sourceAudioLanguage = intake.result.video.defaultAudioLanguage ?? null;
 
     console.log(`Intake decision: ${intakeStatus}`);
     console.log(`Intake artifact: ${intakeArtifactPath}`);
@@ -400,13 +402,18 @@ async function main(): Promise<void> {
   let inputSha256: string | null = null;
 
   if (mode === "pipeline") {
-    if (!raw.input || !raw.sourceLanguage || !raw.targetLanguage) {
-      throw new Error("Pipeline mode requires --input, --source-language, and --target-language.");
+    if (!raw.input || !raw.targetLanguage) {
+      throw new Error("Pipeline mode requires --input and --target-language.");
+    }
+
+    if (parseTargetLanguages(raw.targetLanguage).length !== 1) {
+      throw new Error("Pipeline mode uploads a single dub; pass exactly one --target-language.");
     }
 
     const cliOptions = parseCliOptions({
       input: raw.input,
-      sourceLanguage: raw.sourceLanguage,
+      // Without an explicit code, fall back to YouTube's defaultAudioLanguage and then to detection.
+      sourceLanguage: raw.sourceLanguage ?? sourceAudioLanguage ?? AUTO_SOURCE_LANGUAGE,
       targetLanguage: raw.targetLanguage,
       output: raw.output,
       outputJson: raw.outputJson,
@@ -429,7 +436,7 @@ async function main(): Promise<void> {
     pipelineResult = {
       outputPath: result.outputPath,
       outputJsonPath: result.outputJsonPath,
-      sourceSrtPath: `${outputBase}.${runtimeConfig.sourceLanguage}.srt`,
+      sourceSrtPath: `${outputBase}.${result.sourceLanguage}.srt`,
       translatedSrtPath: `${outputBase}.${runtimeConfig.targetLanguage}.srt`,
       inputAbsolutePath: runtimeConfig.inputAbsolutePath,
       mediaIsVideo: result.mediaInfo.isVideo,
@@ -0,0 +1,87 @@
+import fs from "node:fs/promises";
+import { z } from "zod";
+import type { Segment } from "../types.js";
+
+const glossaryFileSchema = z.object({
+  doNotTranslate: z.array(z.string().trim().min(1)).default([]),
+  // Keyed by target language code, then by source term.
+  terms: z.record(z.string(), z.record(z.string().trim().min(1), z.string().trim().min(1))).default({}),
+});
+
+export type GlossaryFile = z.infer<typeof glossaryFileSchema>;
+
+// The part of a glossary that applies to one target language.
+export interface GlossaryRules {
+  terms: Record<string, string>;
+  doNotTranslate: string[];
+}
+
+export interface GlossaryViolation {
+  segmentIndex: number;
+  kind: "term" | "doNotTranslate";
+  term: string;
+  expected: string;
+}
+
+export async function loadGlossary(glossaryPath: string): Promise<GlossaryFile> {
+  const content = await fs.readFile(glossaryPath, "utf8");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse glossary file '${glossaryPath}': ${message}`);
+  }
+
+  const result = glossaryFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid glossary file '${glossaryPath}': ${issues}`);
+  }
+
+  return result.data;
+}
+
+export function glossaryRulesFor(glossary: GlossaryFile, targetLanguage: string): GlossaryRules {
+  return {
+    terms: glossary.terms[targetLanguage] ?? {},
+    doNotTranslate: glossary.doNotTranslate,
+  };
+}
+
+export function isGlossaryEmpty(rules: GlossaryRules): boolean {
+  return Object.keys(rules.terms).length === 0 && rules.doNotTranslate.length === 0;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-word match so that e.g. "app" does not fire inside "apple".
+function containsTerm(text: string, term: string, caseSensitive: boolean): boolean {
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, caseSensitive ? "u" : "iu");
+  return pattern.test(text);
+}
+
+export function findGlossaryViolations(segments: Segment[], rules: GlossaryRules): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+
+  segments.forEach((segment, segmentIndex) => {
+    for (const [term, expected] of Object.entries(rules.terms)) {
+      if (containsTerm(segment.sourceText, term, false) && !containsTerm(segment.translatedText, expected, false)) {
+        violations.push({ segmentIndex, kind: "term", term, expected });
+      }
+    }
+
+    for (const term of rules.doNotTranslate) {
+      if (containsTerm(segment.sourceText, term, false) && !containsTerm(segment.translatedText, term, true)) {
+        violations.push({ segmentIndex, kind: "doNotTranslate", term, expected: term });
+      }
+    }
+  });
+
+  return violations;
+}
@@ -0,0 +1,149 @@
+import fs from "node:fs/promises";
+import { z } from "zod";
+import type { Segment, SpeakerProfile } from "../types.js";
+import {
+  GEMINI_VOICE_CATALOG,
+  SPEAKER_AGE_RANGES,
+  SPEAKER_ENERGIES,
+  SPEAKER_GENDERS,
+  isGenderCompatible,
+  scoreVoiceMatch,
+} from "./voices.js";
+
+const voiceCastFileSchema = z.object({
+  // Fixed voices by speaker label, e.g. { "SPEAKER_01": "Kore" }.
+  speakers: z.record(z.string().trim().min(1), z.string().trim().min(1)).default({}),
+  // Voices for speakers whose detected attributes match; the first matching rule applies.
+  rules: z
+    .array(
+      z.object({
+        gender: z.enum(SPEAKER_GENDERS).optional(),
+        ageRange: z.enum(SPEAKER_AGE_RANGES).optional(),
+        energy: z.enum(SPEAKER_ENERGIES).optional(),
+        voices: z.array(z.string().trim().min(1)).min(1),
+      }),
+    )
+    .default([]),
+  // Voices handed out to the remaining speakers; overrides the default pool.
+  pool: z.array(z.string().trim().min(1)).min(1).optional(),
+});
+
+export type VoiceCastFile = z.infer<typeof voiceCastFileSchema>;
+export type VoiceCastRule = VoiceCastFile["rules"][number];
+
+// Used after --voice-a/--voice-b when neither --voice-pool nor the cast file sets a pool.
+export const DEFAULT_VOICE_POOL = GEMINI_VOICE_CATALOG.map((voice) => voice.name);
+
+export async function loadVoiceCast(castPath: string): Promise<VoiceCastFile> {
+  const content = await fs.readFile(castPath, "utf8");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse voice cast file '${castPath}': ${message}`);
+  }
+
+  const result = voiceCastFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid voice cast file '${castPath}': ${issues}`);
+  }
+
+  return result.data;
+}
+
+export function resolveVoicePool(params: {
+  voiceA: string;
+  voiceB?: string;
+  pool?: string[];
+  cast?: VoiceCastFile;
+}): string[] {
+  const pool = params.pool ?? params.cast?.pool ?? [params.voiceA, params.voiceB ?? "", ...DEFAULT_VOICE_POOL];
+  return [...new Set(pool.filter(Boolean))];
+}
+
+function compareRanks(a: number[], b: number[]): number {
+  for (let index = 0; index < a.length; index += 1) {
+    if (a[index] !== b[index]) {
+      return a[index] - b[index];
+    }
+  }
+  return 0;
+}
+
+function ruleMatches(rule: VoiceCastRule, profile: SpeakerProfile): boolean {
+  return (
+    (!rule.gender || rule.gender === profile.gender) &&
+    (!rule.ageRange || rule.ageRange === profile.ageRange) &&
+    (!rule.energy || rule.energy === profile.energy)
+  );
+}
+
+// Speakers are cast in order of first appearance. A voice fixed by the cast file wins, then the voice a
+// speaker already had (from a previous segments JSON). Everyone else gets the least used voice among the
+// voices of the first cast rule matching their attributes, or else the pool, so voices only repeat once every
+// candidate is taken. With speaker attributes, voices of the wrong gender are avoided while others are left.
+// Ties go to the `preferred` voices (--voice-a, --voice-b) in order, then to the catalog voice closest in age
+// and energy.
+export function buildSpeakerVoiceMap(
+  segments: Segment[],
+  options: {
+    pool: string[];
+    cast?: VoiceCastFile;
+    previous?: Record<string, string>;
+    speakers?: SpeakerProfile[];
+    // Voices asked for by name; they go to the first speakers they suit, ahead of closer catalog matches.
+    preferred?: string[];
+  },
+): Record<string, string> {
+  const orderedSpeakers = [...new Set(segments.map((segment) => segment.speaker))];
+  const map: Record<string, string> = {};
+  const usage = new Map<string, number>(options.pool.map((voice) => [voice, 0]));
+  const preferred = options.preferred ?? [];
+  const preference = (voice: string): number => {
+    const index = preferred.indexOf(voice);
+    return index === -1 ? preferred.length : index;
+  };
+
+  const assign = (speaker: string, voice: string): void => {
+    map[speaker] = voice;
+    usage.set(voice, (usage.get(voice) ?? 0) + 1);
+  };
+
+  for (const speaker of orderedSpeakers) {
+    const fixed = options.cast?.speakers[speaker] ?? options.previous?.[speaker];
+    if (fixed) {
+      assign(speaker, fixed);
+    }
+  }
+
+  for (const speaker of orderedSpeakers) {
+    if (map[speaker]) {
+      continue;
+    }
+
+    const profile = options.speakers?.find((item) => item.speaker === speaker);
+    const rule = profile && options.cast?.rules.find((item) => ruleMatches(item, profile));
+    const candidates = rule?.voices ?? options.pool;
+
+    const rank = (voice: string): number[] => [
+      profile && !isGenderCompatible(voice, profile) ? 1 : 0,
+      usage.get(voice) ?? 0,
+      preference(voice),
+      profile ? -scoreVoiceMatch(voice, profile) : 0,
+    ];
+    let chosen = candidates[0];
+    for (const voice of candidates) {
+      if (compareRanks(rank(voice), rank(chosen)) < 0) {
+        chosen = voice;
+      }
+    }
+    assign(speaker, chosen);
+  }
+
+  return Object.fromEntries(orderedSpeakers.map((speaker) => [speaker, map[speaker]]));
+}
@@ -0,0 +1,35 @@
+// How a line was spoken in the original; transcription fills it in and it can be edited in the segments JSON.
+export const DELIVERY_PACES = ["slow", "normal", "fast"] as const;
+export const DELIVERY_VOLUMES = ["whisper", "quiet", "normal", "loud", "shout"] as const;
+
+export type DeliveryPace = (typeof DELIVERY_PACES)[number];
+export type DeliveryVolume = (typeof DELIVERY_VOLUMES)[number];
+
+export interface SegmentDelivery {
+  // Free-form, e.g. "excited", "sarcastic", "laughing".
+  emotion?: string;
+  pace?: DeliveryPace;
+  volume?: DeliveryVolume;
+}
+
+const VOLUME_PHRASES: Record<DeliveryVolume, string | undefined> = {
+  whisper: "in a whisper",
+  quiet: "quietly",
+  normal: undefined,
+  loud: "loudly",
+  shout: "shouting",
+};
+
+// Style instruction placed in front of the text, e.g. "Say in a warm podcast voice, sounding excited, loudly".
+// Neutral values add nothing, so a segment without a note and without a house style is sent as bare text.
+export function buildTtsStyle(delivery: SegmentDelivery | undefined, defaultStyle?: string): string | undefined {
+  const emotion = delivery?.emotion?.trim().toLowerCase();
+  const clauses = [
+    defaultStyle?.trim(),
+    emotion && emotion !== "neutral" ? `sounding ${emotion}` : undefined,
+    delivery?.pace && delivery.pace !== "normal" ? `at a ${delivery.pace} pace` : undefined,
+    delivery?.volume ? VOLUME_PHRASES[delivery.volume] : undefined,
+  ].filter(Boolean);
+
+  return clauses.length > 0 ? `Say ${clauses.join(", ")}` : undefined;
+}
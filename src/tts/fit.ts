@@ -0,0 +1,137 @@
+import { logger } from "../logger.js";
+import type { TranslationProvider, TtsProvider } from "../providers/types.js";
+import type { GlossaryRules } from "../translation/glossary.js";
+import type { Segment, SegmentFit } from "../types.js";
+import { segmentClipPath, type SynthesizedSegment } from "./synthesize.js";
+
+export const DEFAULT_FIT_TOLERANCE_SEC = 0.25;
+export const DEFAULT_FIT_MAX_ITERATIONS = 2;
+
+// Aim a little under the window so the rewrite does not land just past the tolerance again.
+const BUDGET_HEADROOM = 0.9;
+
+function buildFit(
+  clip: SynthesizedSegment,
+  windowSec: number,
+  toleranceSec: number,
+  minStretchRatio: number,
+  rewrites: number,
+): SegmentFit {
+  const fits = clip.durationSec * minStretchRatio <= windowSec + toleranceSec;
+  return {
+    status: fits ? (rewrites > 0 ? "rewritten" : "fits") : "overrun",
+    windowSec: Number(windowSec.toFixed(3)),
+    durationSec: Number(clip.durationSec.toFixed(3)),
+    rewrites,
+  };
+}
+
+// Characters a rewrite may use: at the clip's own speaking rate, enough to fill the window once the timeline has
+// compressed it by minStretchRatio (so up to windowSec / minStretchRatio of speech), less the headroom. Always at
+// least one character shorter than the current text.
+export function shortenBudgetChars(
+  textLength: number,
+  durationSec: number,
+  windowSec: number,
+  minStretchRatio: number,
+): number {
+  const charsPerSec = textLength / Math.max(durationSec, 0.01);
+  const budget = Math.floor(((charsPerSec * windowSec) / minStretchRatio) * BUDGET_HEADROOM);
+  return Math.min(textLength - 1, Math.max(1, budget));
+}
+
+// The timeline cuts speech off at the end of its window. Segments whose synthesized audio overruns by more
+// than the tolerance get their translation shortened to a character budget derived from the clip's own
+// speaking rate and are synthesized again, with the same voice and style, up to maxIterations times. The
+// shortest attempt wins. A segment that already carries a fit, saved by an interrupted run after a rewrite,
+// keeps its rewrite count, so a resumed run does not spend those iterations again.
+export async function fitSegmentsToWindows(params: {
+  translation: TranslationProvider;
+  tts: TtsProvider;
+  segments: Segment[];
+  synthesized: SynthesizedSegment[];
+  outputDir: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  toleranceSec: number;
+  maxIterations: number;
+  // The timeline can compress clips down to this duration ratio, so only overruns beyond it need a rewrite.
+  minStretchRatio?: number;
+  glossary?: GlossaryRules;
+  onSegmentRefitted?: (segment: SynthesizedSegment, rewrites: number) => Promise<void>;
+  signal?: AbortSignal;
+}): Promise<{ segments: Segment[]; synthesized: SynthesizedSegment[] }> {
+  const segments: Segment[] = [];
+  const synthesized: SynthesizedSegment[] = [];
+  const shorten = params.translation.shorten?.bind(params.translation);
+  const minStretchRatio = params.minStretchRatio ?? 1;
+
+  for (let index = 0; index < params.segments.length; index += 1) {
+    const segment = params.segments[index];
+    const windowSec = segment.endSec - segment.startSec;
+    let best = params.synthesized[index];
+    let rewrites = segment.fit?.rewrites ?? 0;
+
+    let current = best;
+    for (let iteration = rewrites + 1; iteration <= params.maxIterations && shorten; iteration += 1) {
+      if (best.durationSec * minStretchRatio <= windowSec + params.toleranceSec) {
+        break;
+      }
+
+      const maxChars = shortenBudgetChars(
+        current.translatedText.length,
+        current.durationSec,
+        windowSec,
+        minStretchRatio,
+      );
+      const rewritten = (
+        await shorten({
+          sourceText: segment.sourceText,
+          translatedText: current.translatedText,
+          sourceLanguage: params.sourceLanguage,
+          targetLanguage: params.targetLanguage,
+          maxChars,
+          glossary: params.glossary,
+          signal: params.signal,
+        })
+      ).trim();
+
+      if (!rewritten || rewritten === current.translatedText) {
+        break;
+      }
+
+      const clip = await params.tts.synthesize({
+        text: rewritten,
+        voiceName: current.voiceName,
+        style: current.style,
+        outputPath: segmentClipPath(params.outputDir, index, `.fit${iteration}`),
+        signal: params.signal,
+      });
+      rewrites = iteration;
+      current = { ...current, translatedText: rewritten, ...clip };
+
+      logger.info(
+        { index, iteration, windowSec, durationSec: clip.durationSec, maxChars, chars: rewritten.length },
+        "Re-synthesized shortened translation",
+      );
+
+      if (current.durationSec < best.durationSec) {
+        best = current;
+        await params.onSegmentRefitted?.(best, rewrites);
+      }
+    }
+
+    const fit = buildFit(best, windowSec, params.toleranceSec, minStretchRatio, rewrites);
+    if (fit.status === "overrun") {
+      logger.warn(
+        { index, windowSec: fit.windowSec, durationSec: fit.durationSec, rewrites },
+        "Synthesized speech still overruns its window and will be truncated",
+      );
+    }
+
+    segments.push({ ...segment, translatedText: best.translatedText, fit });
+    synthesized.push(best);
+  }
+
+  return { segments, synthesized };
+}
@@ -0,0 +1,140 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { TtsProvider } from "../providers/types.js";
+import type { Segment } from "../types.js";
+import { mapWithConcurrency } from "../util/concurrency.js";
+import { buildTtsStyle } from "./delivery.js";
+
+export interface SynthesizedSegment {
+  index: number;
+  speaker: string;
+  startSec: number;
+  endSec: number;
+  translatedText: string;
+  voiceName: string;
+  // Style instruction sent with the text; undefined when the line was read plainly.
+  style?: string;
+  wavPath: string;
+  sampleRate: number;
+  durationSec: number;
+}
+
+export function voiceForSpeaker(voiceMap: Record<string, string>, speaker: string): string {
+  return voiceMap[speaker] ?? Object.values(voiceMap)[0];
+}
+
+export function segmentClipPath(outputDir: string, index: number, suffix = ""): string {
+  return path.join(outputDir, `${String(index).padStart(5, "0")}${suffix}.wav`);
+}
+
+// Clips are matched by content rather than position, so inserting or deleting a segment does not invalidate the
+// clips after it. A clip recorded at the same index is preferred.
+async function findReusableSegment(
+  completed: SynthesizedSegment[] | undefined,
+  index: number,
+  segment: Segment,
+  voiceName: string,
+  style: string | undefined,
+): Promise<SynthesizedSegment | undefined> {
+  const candidates = (completed ?? [])
+    .filter(
+      (item) =>
+        item.speaker === segment.speaker &&
+        item.translatedText === segment.translatedText &&
+        item.voiceName === voiceName &&
+        item.style === style,
+    )
+    .sort((a, b) => Number(b.index === index) - Number(a.index === index));
+
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate.wavPath);
+    } catch {
+      continue;
+    }
+    return { ...candidate, index, startSec: segment.startSec, endSec: segment.endSec };
+  }
+  return undefined;
+}
+
+// A reused clip may sit at another segment's default path, which must then not be overwritten.
+function freshClipPath(outputDir: string, index: number, reservedPaths: Set<string>): string {
+  let clipPath = segmentClipPath(outputDir, index);
+  for (let attempt = 1; reservedPaths.has(clipPath); attempt += 1) {
+    clipPath = segmentClipPath(outputDir, index, `.v${attempt}`);
+  }
+  return clipPath;
+}
+
+export const DEFAULT_TTS_CONCURRENCY = 4;
+
+// Segments are synthesized up to `concurrency` at a time. Clip files are named by segment index and the
+// result keeps segment order, so the output does not depend on which request finishes first.
+export async function synthesizeSegments(params: {
+  provider: TtsProvider;
+  segments: Segment[];
+  voiceMap: Record<string, string>;
+  // House style (--tts-style) combined with each segment's delivery note.
+  defaultStyle?: string;
+  outputDir: string;
+  concurrency?: number;
+  completed?: SynthesizedSegment[];
+  onSegmentSynthesized?: (segment: SynthesizedSegment) => Promise<void>;
+  // Called once per segment as it becomes available, reused clips included.
+  onProgress?: (progress: { index: number; completed: number; total: number }) => void;
+  signal?: AbortSignal;
+}): Promise<SynthesizedSegment[]> {
+  await fs.mkdir(params.outputDir, { recursive: true });
+  let completed = 0;
+  const reportProgress = (index: number): void => {
+    completed += 1;
+    params.onProgress?.({ index, completed, total: params.segments.length });
+  };
+
+  const requests = params.segments.map((segment) => ({
+    voiceName: voiceForSpeaker(params.voiceMap, segment.speaker),
+    style: buildTtsStyle(segment.delivery, params.defaultStyle),
+  }));
+  // Clips from an interrupted run or an earlier render are reused as long as their audio is still on disk. They
+  // are all picked before anything is synthesized, so new clips can be kept off the files being reused.
+  const reusable = await Promise.all(
+    params.segments.map((segment, index) =>
+      findReusableSegment(params.completed, index, segment, requests[index].voiceName, requests[index].style),
+    ),
+  );
+  const reservedPaths = new Set(reusable.flatMap((clip) => (clip ? [clip.wavPath] : [])));
+
+  return mapWithConcurrency(params.segments, params.concurrency ?? 1, async (segment, index) => {
+    const { voiceName, style } = requests[index];
+    const reused = reusable[index];
+    if (reused) {
+      reportProgress(index);
+      return reused;
+    }
+
+    const clip = await params.provider.synthesize({
+      text: segment.translatedText,
+      voiceName,
+      style,
+      outputPath: freshClipPath(params.outputDir, index, reservedPaths),
+      signal: params.signal,
+    });
+
+    const result: SynthesizedSegment = {
+      index,
+      speaker: segment.speaker,
+      startSec: segment.startSec,
+      endSec: segment.endSec,
+      translatedText: segment.translatedText,
+      voiceName,
+      style,
+      wavPath: clip.wavPath,
+      sampleRate: clip.sampleRate,
+      durationSec: clip.durationSec,
+    };
+
+    await params.onSegmentSynthesized?.(result);
+    reportProgress(index);
+    return result;
+  }, params.signal);
+}
@@ -0,0 +1,82 @@
+// Attribute vocabulary shared by the transcription schema, the voice catalog and cast file rules.
+export const SPEAKER_GENDERS = ["female", "male", "unknown"] as const;
+export const SPEAKER_AGE_RANGES = ["child", "young", "adult", "senior", "unknown"] as const;
+export const SPEAKER_ENERGIES = ["low", "medium", "high"] as const;
+
+export type SpeakerGender = (typeof SPEAKER_GENDERS)[number];
+export type SpeakerAgeRange = (typeof SPEAKER_AGE_RANGES)[number];
+export type SpeakerEnergy = (typeof SPEAKER_ENERGIES)[number];
+
+export interface SpeakerAttributes {
+  gender: SpeakerGender;
+  ageRange: SpeakerAgeRange;
+  energy: SpeakerEnergy;
+}
+
+export interface CatalogVoice extends SpeakerAttributes {
+  name: string;
+  // Google's one-word description of the voice.
+  style: string;
+}
+
+// Gemini prebuilt TTS voices with their perceived attributes. Catalog order is also the default pool order.
+export const GEMINI_VOICE_CATALOG: CatalogVoice[] = [
+  { name: "Kore", gender: "female", ageRange: "adult", energy: "medium", style: "firm" },
+  { name: "Puck", gender: "male", ageRange: "young", energy: "high", style: "upbeat" },
+  { name: "Charon", gender: "male", ageRange: "adult", energy: "low", style: "informative" },
+  { name: "Aoede", gender: "female", ageRange: "young", energy: "medium", style: "breezy" },
+  { name: "Fenrir", gender: "male", ageRange: "young", energy: "high", style: "excitable" },
+  { name: "Leda", gender: "female", ageRange: "young", energy: "medium", style: "youthful" },
+  { name: "Orus", gender: "male", ageRange: "adult", energy: "medium", style: "firm" },
+  { name: "Zephyr", gender: "female", ageRange: "young", energy: "high", style: "bright" },
+  { name: "Callirrhoe", gender: "female", ageRange: "adult", energy: "low", style: "easy-going" },
+  { name: "Autonoe", gender: "female", ageRange: "adult", energy: "high", style: "bright" },
+  { name: "Enceladus", gender: "male", ageRange: "adult", energy: "low", style: "breathy" },
+  { name: "Iapetus", gender: "male", ageRange: "adult", energy: "medium", style: "clear" },
+  { name: "Umbriel", gender: "male", ageRange: "adult", energy: "low", style: "easy-going" },
+  { name: "Algieba", gender: "male", ageRange: "adult", energy: "low", style: "smooth" },
+  { name: "Despina", gender: "female", ageRange: "adult", energy: "low", style: "smooth" },
+  { name: "Erinome", gender: "female", ageRange: "adult", energy: "medium", style: "clear" },
+  { name: "Algenib", gender: "male", ageRange: "senior", energy: "low", style: "gravelly" },
+  { name: "Rasalgethi", gender: "male", ageRange: "adult", energy: "medium", style: "informative" },
+  { name: "Laomedeia", gender: "female", ageRange: "young", energy: "high", style: "upbeat" },
+  { name: "Achernar", gender: "female", ageRange: "adult", energy: "low", style: "soft" },
+  { name: "Alnilam", gender: "male", ageRange: "adult", energy: "medium", style: "firm" },
+  { name: "Schedar", gender: "male", ageRange: "adult", energy: "medium", style: "even" },
+  { name: "Gacrux", gender: "female", ageRange: "senior", energy: "low", style: "mature" },
+  { name: "Pulcherrima", gender: "female", ageRange: "adult", energy: "high", style: "forward" },
+  { name: "Achird", gender: "male", ageRange: "young", energy: "medium", style: "friendly" },
+  { name: "Zubenelgenubi", gender: "male", ageRange: "adult", energy: "medium", style: "casual" },
+  { name: "Vindemiatrix", gender: "female", ageRange: "senior", energy: "low", style: "gentle" },
+  { name: "Sadachbia", gender: "male", ageRange: "young", energy: "high", style: "lively" },
+  { name: "Sadaltager", gender: "male", ageRange: "senior", energy: "medium", style: "knowledgeable" },
+  { name: "Sulafat", gender: "female", ageRange: "adult", energy: "medium", style: "warm" },
+];
+
+export function findCatalogVoice(name: string): CatalogVoice | undefined {
+  const lowered = name.toLowerCase();
+  return GEMINI_VOICE_CATALOG.find((voice) => voice.name.toLowerCase() === lowered);
+}
+
+// False only when both sides have a known gender and they differ; voices outside the catalog always pass.
+export function isGenderCompatible(voiceName: string, attributes: SpeakerAttributes): boolean {
+  const voice = findCatalogVoice(voiceName);
+  return !voice || attributes.gender === "unknown" || voice.gender === attributes.gender;
+}
+
+// Higher is a closer match: age range counts double energy. Unknown attributes score nothing.
+export function scoreVoiceMatch(voiceName: string, attributes: SpeakerAttributes): number {
+  const voice = findCatalogVoice(voiceName);
+  if (!voice) {
+    return 0;
+  }
+
+  let score = 0;
+  if (attributes.ageRange !== "unknown" && voice.ageRange === attributes.ageRange) {
+    score += 2;
+  }
+  if (voice.energy === attributes.energy) {
+    score += 1;
+  }
+  return score;
+}
@@ -1,5 +1,15 @@
+import type { LoudnessTargetOption } from "./audio/loudness.js";
+import type { ResampleQuality } from "./audio/resample.js";
+import type { CassetteMode } from "./gemini/cassette.js";
+import type { LanguageDetection, ProviderName } from "./providers/types.js";
+import type { GlossaryViolation } from "./translation/glossary.js";
+import type { SegmentDelivery } from "./tts/delivery.js";
+import type { SpeakerAttributes } from "./tts/voices.js";
+
 export type ModelTier = "flash" | "pro";
 
+export type DubMode = "replace" | "voice-over";
+
 export interface CliOptions {
   input: string;
   sourceLanguage: string;
@@ -12,6 +22,56 @@ export interface CliOptions {
   transcribeModel?: string;
   ttsModel?: string;
   keepArtifacts: boolean;
+  resume?: string;
+  provider?: ProviderName;
+  cassetteDir?: string;
+  cassetteMode?: CassetteMode;
+  chunkSec?: number;
+  chunkOverlapSec?: number;
+  chunkConcurrency?: number;
+  fitToleranceSec?: number;
+  fitMaxIterations?: number;
+  stretchMinRatio?: number;
+  stretchMaxRatio?: number;
+  fadeInMs?: number;
+  fadeOutMs?: number;
+  crossfadeMs?: number;
+  trimSilenceDb?: number;
+  noTrimSilence?: boolean;
+  keepBackground?: boolean;
+  backgroundDb?: number;
+  duckDb?: number;
+  duckAttackMs?: number;
+  duckReleaseMs?: number;
+  dubDb?: number;
+  vocalReduction?: boolean;
+  dubMode?: DubMode;
+  leadInSec?: number;
+  bedDb?: number;
+  loudnessTarget?: LoudnessTargetOption;
+  truePeakDbtp?: number;
+  resampleQuality?: ResampleQuality;
+  twoPass?: boolean;
+  glossary?: string;
+  voiceCast?: string;
+  voicePool?: string;
+  ttsStyle?: string;
+  ttsConcurrency?: number;
+  ttsRequestsPerMinute?: number;
+  ttsCharsPerMinute?: number;
+  retryAttempts?: number;
+  retryMaxDelaySec?: number;
+  stageTimeoutSec?: number;
+  commandTimeoutSec?: number;
+  cacheDir?: string;
+  noCache?: boolean;
+  saveClips?: boolean;
+}
+
+export interface LanguageTarget {
+  language: string;
+  outputAbsolutePath: string;
+  outputJsonAbsolutePath: string;
 }
 
 export interface RuntimeConfig extends CliOptions {
@@ -20,7 +80,12 @@ export interface RuntimeConfig extends CliOptions {
   inputAbsolutePath: string;
   outputAbsolutePath: string;
   outputJsonAbsolutePath: string;
-  googleApiKey: string;
+  targets: LanguageTarget[];
+  glossaryAbsolutePath?: string;
+  voiceCastAbsolutePath?: string;
+  // Unset with --no-cache.
+  cacheDirAbsolutePath?: string;
+  googleApiKey?: string;
 }
 
 export interface MediaInfo {
@@ -28,22 +93,68 @@ export interface MediaInfo {
   durationSec: number;
   isVideo: boolean;
   audioCodec?: string;
+  audioChannels?: number;
   videoCodec?: string;
 }
 
+// "fits": the first synthesis fit its window; "rewritten": it fits after shortening the translation;
+// "overrun": still too long after the last rewrite, so the end is cut off in the timeline.
+export type SegmentFitStatus = "fits" | "rewritten" | "overrun";
+
+export interface SegmentFit {
+  status: SegmentFitStatus;
+  windowSec: number;
+  durationSec: number;
+  rewrites: number;
+}
+
 export interface Segment {
   speaker: string;
   startSec: number;
   endSec: number;
   sourceText: string;
   translatedText: string;
+  // How the original line was spoken; turned into a TTS style instruction.
+  delivery?: SegmentDelivery;
+  // Set after TTS; how the synthesized speech compares with the segment window.
+  fit?: SegmentFit;
+}
+
+// Perceived voice of one speaker label, reported by the transcription provider and used for casting.
+export interface SpeakerProfile extends SpeakerAttributes {
+  speaker: string;
+  // Free-form speaking style, e.g. "calm documentary narrator".
+  style?: string;
+}
+
+export interface Transcript {
+  segments: Segment[];
+  // Empty when the provider does not report speaker attributes.
+  speakers: SpeakerProfile[];
+}
+
+export interface PipelineLanguageResult {
+  targetLanguage: string;
+  segments: Segment[];
+  dubbedAudioPath: string;
+  outputPath: string;
+  outputJsonPath: string;
+  glossaryViolations: GlossaryViolation[];
+  // Speaker label -> TTS voice used for this language.
+  voiceMap: Record<string, string>;
 }
 
 export interface PipelineResult {
   mediaInfo: MediaInfo;
+  // Detected language when run with --source-language auto, otherwise the one passed in.
+  sourceLanguage: string;
+  sourceLanguageDetection?: LanguageDetection;
+  // Speaker attributes reported by transcription; empty when the provider gives none.
+  speakers: SpeakerProfile[];
   segments: Segment[];
-  extractedAudioPath: string;
+  extractedAudioPath?: string;
   dubbedAudioPath: string;
   outputPath: string;
   outputJsonPath: string;
+  languages: PipelineLanguageResult[];
 }
@@ -0,0 +1,47 @@
+// Resolves after `ms`, or rejects with the signal's reason as soon as it is aborted.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Runs `run` with a signal that is aborted by `signal` or after `timeoutMs`, whichever comes first. Work is
+// cancelled cooperatively, so `run` has to pass the signal on. A timeout is reported as an error naming
+// `label`, whatever error the cancelled work rejected with.
+export async function withTimeout<T>(
+  label: string,
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal | undefined) => Promise<T>,
+): Promise<T> {
+  signal?.throwIfAborted();
+  if (timeoutMs === undefined) {
+    return run(signal);
+  }
+
+  const timeout = new AbortController();
+  const timeoutError = new Error(`${label} timed out after ${Math.round(timeoutMs / 1000)} s`);
+  const timer = setTimeout(() => timeout.abort(timeoutError), timeoutMs);
+  try {
+    return await run(signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal);
+  } catch (error) {
+    if (timeout.signal.aborted && !signal?.aborted) {
+      throw timeoutError;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
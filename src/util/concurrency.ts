@@ -0,0 +1,31 @@
+// Runs `worker` over `items` with at most `concurrency` calls in flight; results keep the input order.
+// Once `signal` is aborted or a worker call fails, no further items are started; the call rejects with the
+// signal's reason or the first failure.
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  async function drain(): Promise<void> {
+    while (next < items.length && !failed) {
+      signal?.throwIfAborted();
+      const index = next;
+      next += 1;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, () => drain());
+  await Promise.all(workers);
+  return results;
+}
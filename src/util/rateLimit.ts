@@ -0,0 +1,75 @@
+import { sleep } from "./abort.js";
+
+export interface RateLimits {
+  requestsPerMinute?: number;
+  charsPerMinute?: number;
+}
+
+export interface RateLimiter {
+  // Resolves once one request of `chars` characters fits within every configured limit. Rejects with the
+  // signal's reason when aborted while waiting.
+  acquire(chars: number, signal?: AbortSignal): Promise<void>;
+  // Holds back every caller, e.g. after the server answered 429.
+  pause(ms: number): void;
+}
+
+interface Bucket {
+  capacity: number;
+  tokens: number;
+  refillPerMs: number;
+}
+
+function createBucket(perMinute: number): Bucket {
+  return { capacity: perMinute, tokens: perMinute, refillPerMs: perMinute / 60_000 };
+}
+
+// Token buckets start full, so up to one minute's quota can go out at once before the steady rate applies.
+// A single request larger than a bucket's capacity is let through once the bucket is full.
+export function createRateLimiter(limits: RateLimits): RateLimiter {
+  const requests = limits.requestsPerMinute ? createBucket(limits.requestsPerMinute) : undefined;
+  const chars = limits.charsPerMinute ? createBucket(limits.charsPerMinute) : undefined;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+
+  const refill = (): void => {
+    const now = Date.now();
+    const elapsed = now - lastRefill;
+    lastRefill = now;
+    for (const bucket of [requests, chars]) {
+      if (bucket) {
+        bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsed * bucket.refillPerMs);
+      }
+    }
+  };
+
+  const waitFor = (bucket: Bucket | undefined, cost: number): number => {
+    if (!bucket) {
+      return 0;
+    }
+    const needed = Math.min(cost, bucket.capacity) - bucket.tokens;
+    return needed > 0 ? Math.ceil(needed / bucket.refillPerMs) : 0;
+  };
+
+  return {
+    acquire: async (cost, signal) => {
+      for (;;) {
+        signal?.throwIfAborted();
+        refill();
+        const waitMs = Math.max(pausedUntil - Date.now(), waitFor(requests, 1), waitFor(chars, cost));
+        if (waitMs <= 0) {
+          if (requests) {
+            requests.tokens -= 1;
+          }
+          if (chars) {
+            chars.tokens -= cost;
+          }
+          return;
+        }
+        await sleep(waitMs, signal);
+      }
+    },
+    pause: (ms) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+}
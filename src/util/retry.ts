@@ -0,0 +1,193 @@
+import { logger } from "../logger.js";
+import { sleep } from "./abort.js";
+
+export type ErrorKind = "rate_limit" | "quota_exhausted" | "transient" | "auth" | "invalid_request" | "unknown";
+
+export interface ErrorClassification {
+  kind: ErrorKind;
+  // Whether trying the same request again can succeed.
+  retryable: boolean;
+  status?: number;
+  // Server hint for when to try again, in milliseconds.
+  retryAfterMs?: number;
+}
+
+export interface RetryOptions {
+  // Total tries including the first one.
+  maxAttempts?: number;
+  // Backoff before the second try; doubles for every further try.
+  baseDelayMs?: number;
+  // Ceiling for computed backoff. Server retry hints are honoured even when longer.
+  maxDelayMs?: number;
+  // Retryable kinds that are passed on at once instead, for callers that retry them their own way.
+  passThroughKinds?: readonly ErrorKind[];
+  // Used in the retry log line, e.g. "gemini tts".
+  label?: string;
+  // Stops retrying, including any backoff in progress, and rejects with the signal's reason.
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, "label" | "signal" | "passThroughKinds">> = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+// The error a retried operation finally fails with. The message is that of the last failure, so existing
+// message checks keep working; `cause` holds the original error.
+export class RetryError extends Error {
+  readonly kind: ErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly attempts: number;
+
+  constructor(classification: ErrorClassification, attempts: number, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = "RetryError";
+    this.kind = classification.kind;
+    this.retryable = classification.retryable;
+    this.status = classification.status;
+    this.attempts = attempts;
+  }
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Node network failures carry a code on the error or, for fetch, on its cause.
+function networkErrorCode(error: unknown): string | undefined {
+  for (let current = error, depth = 0; current && depth < 3; depth += 1) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) {
+      return code;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+// The Gemini SDK only reports HTTP failures through the message, e.g.
+// "got status: 429 Too Many Requests. {"error":{"status":"RESOURCE_EXHAUSTED",...}}".
+function httpStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | undefined)?.status;
+  if (typeof status === "number") {
+    return status;
+  }
+  const match = /got status: (\d{3})\b/.exec(errorText(error));
+  return match ? Number(match[1]) : undefined;
+}
+
+// Server hint for when to try again: a RetryInfo "retryDelay", a Retry-After value or "retry in Ns".
+export function retryAfterMs(error: unknown): number | undefined {
+  const message = errorText(error);
+  const patterns: Array<[RegExp, number]> = [
+    [/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/, 1000],
+    [/retry-after\W+(\d+(?:\.\d+)?)/i, 1000],
+    [/retry in (\d+(?:\.\d+)?)\s*ms\b/i, 1],
+    [/retry in (\d+(?:\.\d+)?)\s*s\b/i, 1000],
+  ];
+
+  for (const [pattern, scale] of patterns) {
+    const match = pattern.exec(message);
+    if (match) {
+      return Math.ceil(Number(match[1]) * scale);
+    }
+  }
+  return undefined;
+}
+
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof RetryError) {
+    return { kind: error.kind, retryable: error.retryable, status: error.status, retryAfterMs: retryAfterMs(error) };
+  }
+
+  const message = errorText(error);
+  const status = httpStatus(error);
+  const hint = retryAfterMs(error);
+
+  if (status === 429 || message.includes("RESOURCE_EXHAUSTED")) {
+    // A daily or billing quota will not refill within any sensible backoff; a per-minute limit will.
+    if (/PerDay|per day|daily limit|billing/i.test(message)) {
+      return { kind: "quota_exhausted", retryable: false, status, retryAfterMs: hint };
+    }
+    return { kind: "rate_limit", retryable: true, status, retryAfterMs: hint };
+  }
+  if (
+    status === 401 ||
+    status === 403 ||
+    /UNAUTHENTICATED|PERMISSION_DENIED|API key not valid|API_KEY_INVALID/i.test(message)
+  ) {
+    return { kind: "auth", retryable: false, status };
+  }
+  if (status === 408 || (status !== undefined && status >= 500) || /UNAVAILABLE|DEADLINE_EXCEEDED/.test(message)) {
+    return { kind: "transient", retryable: true, status, retryAfterMs: hint };
+  }
+  if ((status !== undefined && status >= 400) || message.includes("INVALID_ARGUMENT")) {
+    return { kind: "invalid_request", retryable: false, status };
+  }
+  if (networkErrorCode(error) || /fetch failed|socket hang up|network error/i.test(message)) {
+    return { kind: "transient", retryable: true };
+  }
+  // Unrecognised failures (e.g. an empty model response) may well pass on a second try.
+  return { kind: "unknown", retryable: true };
+}
+
+// Exponential backoff with "equal jitter": half the step is fixed, half random, so concurrent callers that
+// failed together do not retry in lockstep while each still waits a meaningful minimum.
+export function backoffDelayMs(attempt: number, options: RetryOptions = {}): number {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs;
+  const step = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(step / 2 + Math.random() * (step / 2));
+}
+
+// Runs `operation` until it succeeds, fails with an error that cannot succeed on retry, or runs out of
+// attempts. Whatever it finally throws is a RetryError carrying the classification.
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts);
+
+  for (let attempt = 1; ; attempt += 1) {
+    options.signal?.throwIfAborted();
+    try {
+      return await operation();
+    } catch (error) {
+      // A cancelled request is not a failure of the request itself, so it is neither retried nor classified.
+      options.signal?.throwIfAborted();
+      const classification = classifyError(error);
+      const passThrough = options.passThroughKinds?.includes(classification.kind) ?? false;
+      if (!classification.retryable || passThrough || attempt >= maxAttempts) {
+        throw error instanceof RetryError ? error : new RetryError(classification, attempt, error);
+      }
+
+      const waitMs = classification.retryAfterMs ?? backoffDelayMs(attempt, options);
+      logger.warn(
+        {
+          label: options.label,
+          attempt,
+          maxAttempts,
+          kind: classification.kind,
+          status: classification.status,
+          waitMs,
+        },
+        "Request failed; retrying",
+      );
+      await sleep(waitMs, options.signal);
+    }
+  }
+}
@@ -5,15 +5,67 @@ export interface RunCommandResult {
   stderr: string;
 }
 
-export function runCommand(command: string, args: string[], cwd: string): Promise<RunCommandResult> {
+export interface RunCommandOptions {
+  // Kills the child process and rejects with the signal's reason when aborted.
+  signal?: AbortSignal;
+  // Kills the child process and rejects when it runs longer than this.
+  timeoutMs?: number;
+  // Receives stdout as it arrives, e.g. to follow ffmpeg's -progress output.
+  onStdout?: (chunk: string) => void;
+}
+
+// Time a child gets to exit after SIGTERM before it is killed outright.
+const KILL_GRACE_MS = 5000;
+
+export function runCommand(
+  command: string,
+  args: string[],
+  cwd: string,
+  options: RunCommandOptions = {},
+): Promise<RunCommandResult> {
   return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(options.signal.reason);
+      return;
+    }
+
     const child = spawn(command, args, { cwd, stdio: ["ignore", "pipe", "pipe"] });
 
     let stdout = "";
     let stderr = "";
+    // Set once the child is being killed on purpose; the rejection then reports why instead of the exit code.
+    let stopReason: unknown;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const stop = (reason: unknown): void => {
+      if (stopReason !== undefined) {
+        return;
+      }
+      stopReason = reason;
+      child.kill("SIGTERM");
+      killTimer = setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_MS);
+      killTimer.unref();
+    };
+
+    const onAbort = (): void => stop(options.signal?.reason);
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    const timeoutTimer =
+      options.timeoutMs !== undefined
+        ? setTimeout(() => {
+            stop(new Error(`Command timed out after ${options.timeoutMs} ms: ${command} ${args.join(" ")}`));
+          }, options.timeoutMs)
+        : undefined;
+
+    const settle = (): void => {
+      options.signal?.removeEventListener("abort", onAbort);
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+    };
 
     child.stdout.on("data", (chunk: Buffer) => {
-      stdout += chunk.toString("utf8");
+      const text = chunk.toString("utf8");
+      stdout += text;
+      options.onStdout?.(text);
     });
 
     child.stderr.on("data", (chunk: Buffer) => {
@@ -21,10 +73,16 @@ export function runCommand(command: string, args: string[], cwd: string): Promis
     });
 
     child.on("error", (error) => {
+      settle();
       reject(error);
     });
 
     child.on("close", (code) => {
+      settle();
+      if (stopReason !== undefined) {
+        reject(stopReason);
+        return;
+      }
       if (code === 0) {
         resolve({ stdout, stderr });
         return;